@@ -2,12 +2,21 @@
 
 import { Command } from 'commander';
 import { createAICommand } from './commands/ai';
+import { createConfigCommand } from './commands/config';
+import { createPackCommand } from './commands/pack';
 import { ProjectWatcher } from './core/watcher';
-import { handleSnapshotCommand } from './commands/snapshot';
-import { handleCleanupCommand } from './commands/cleanup';
+import { createSnapshotCommand } from './commands/snapshot';
+import { handleCleanupCommand, handleCleanupUndoCommand } from './commands/cleanup';
 import { handleCompareCommand } from './commands/compare';
+import { handleLinksCommand } from './commands/links';
+import { handleHealthCommand } from './commands/health';
+import { handleCheckCommand } from './commands/check';
 import { initializeProject } from './core/init';
-import { ProjectConfig } from './types';
+import { getConfig, resolveConfig, saveConfig, setCliOverrides } from './core/config';
+import { CONFIG_VERSION } from './core/config-migrations';
+import { resolvePaths } from './core/paths';
+import { mkdir, reportPlannedChanges, setDryRun } from './core/file-plan';
+import { TemplatePackRegistry } from './services/templatePacks';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -16,51 +25,89 @@ const program = new Command();
 program
   .name('mementor')
   .description('AI-driven documentation management for TypeScript projects')
-  .version('1.0.0');
-
-async function loadOrCreateConfig(): Promise<ProjectConfig> {
-  try {
-    const configFile = await fs.readFile('mementor.json', 'utf-8');
-    return JSON.parse(configFile);
-  } catch {
-    // Create default config
-    return {
-      name: path.basename(process.cwd()),
-      version: '1.0.0',
-      docsDir: 'docs/context',
-      templatesDir: 'docs/templates',
-      git: {
-        enabled: true,
-        autoCommit: true,
-        commitPrefix: 'docs',
-      },
-      features: {
-        autoSnapshot: true,
-        liveUpdate: true,
-        gitHooks: true,
-      },
-    };
-  }
-}
+  .version('1.0.0')
+  .option(
+    '--set <key=value>',
+    'Override a configuration value for this run (repeatable)',
+    (pair: string, pairs: string[]) => [...pairs, pair],
+    [],
+  )
+  .option('--dry-run', 'Print the files that would be created, moved or edited without writing')
+  .hook('preAction', (_program, actionCommand) => {
+    try {
+      setCliOverrides(program.opts().set);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    if (program.opts().dryRun) {
+      // AI sessions keep state between commands, which a dry run cannot represent
+      if (actionCommand.parent?.name() === 'ai') {
+        console.error('--dry-run is not supported by the ai commands');
+        process.exit(1);
+      }
+      setDryRun(true);
+    }
+  })
+  .hook('postAction', (_program, actionCommand) => {
+    // The watcher reports its plan after each change instead
+    if (actionCommand.name() !== 'watch') {
+      reportPlannedChanges();
+    }
+  });
 
 program
   .command('init')
   .description('Initialize Mementor in the current project')
-  .action(async () => {
+  .option(
+    '-p, --pack <name|dir>',
+    'Template pack to generate documents from, by name or from a local directory',
+  )
+  .option(
+    '-u, --update',
+    'Add sections from the current templates that are missing in existing documents',
+    false,
+  )
+  .action(async options => {
     try {
-      const config = await loadOrCreateConfig();
+      const { config, layers, origins } = await resolveConfig();
+      const paths = resolvePaths(config);
+      // Only what mementor.json already holds is saved, so the other layers keep applying
+      const projectValues = {
+        ...(layers.find(layer => layer.source === 'project')?.values ?? {
+          configVersion: CONFIG_VERSION,
+        }),
+      };
 
       // Create directories
-      await fs.mkdir(config.docsDir, { recursive: true });
-      await fs.mkdir(config.templatesDir, { recursive: true });
-
-      // Save config
-      await fs.writeFile('mementor.json', JSON.stringify(config, null, 2));
+      await mkdir(paths.docsDir);
+      await mkdir(paths.templatesDir);
+
+      // Select the template pack, installing it first when given a directory
+      if (options.pack) {
+        const registry = new TemplatePackRegistry(paths.templatesDir);
+        const pack = (await fs.stat(options.pack).catch(() => null))?.isDirectory()
+          ? await registry.install(path.resolve(options.pack), { force: true })
+          : await registry.get(options.pack);
+        config.templatePack = pack.name;
+        projectValues.templatePack = pack.name;
+      }
+
+      // Save config, an update leaves it alone unless a different pack was chosen
+      if (!options.update || options.pack) {
+        await saveConfig(projectValues);
+      }
 
       // Initialize the project
-      await initializeProject(config);
-
-      console.warn('✨ Mementor initialized successfully!');
+      await initializeProject(config, {
+        update: options.update,
+        explicitName: origins.name.source !== 'default',
+      });
+
+      if (!options.update) {
+        console.warn('✨ Mementor initialized successfully!');
+      }
     } catch (error) {
       console.error('Error initializing Mementor:', error);
       process.exit(1);
@@ -72,7 +119,7 @@ program
   .description('Watch for changes and update documentation')
   .action(async () => {
     try {
-      const config = await loadOrCreateConfig();
+      const config = await getConfig();
 
       // Start watcher
       const watcher = new ProjectWatcher(config);
@@ -85,26 +132,21 @@ program
     }
   });
 
-program
-  .command('snapshot')
-  .description('Create a snapshot of the current documentation state')
-  .action(async () => {
-    try {
-      const config = await loadOrCreateConfig();
-      await handleSnapshotCommand(config);
-      console.warn('📸 Snapshot created successfully!');
-    } catch (error) {
-      console.error('Failed to create snapshot:', error);
-      process.exit(1);
-    }
-  });
+// Add snapshot commands
+program.addCommand(createSnapshotCommand());
+
 program
   .command('cleanup')
   .description('Clean up and organize snapshot files into year/month/day structure')
-  .action(async () => {
+  .option('--undo', 'Move the snapshots of the last cleanup back', false)
+  .action(async options => {
     try {
-      const config = await loadOrCreateConfig();
-      await handleCleanupCommand(config);
+      const config = await getConfig();
+      if (options.undo) {
+        await handleCleanupUndoCommand(config);
+      } else {
+        await handleCleanupCommand(config);
+      }
     } catch (error) {
       console.error('Failed to clean up snapshots:', error);
       process.exit(1);
@@ -115,19 +157,71 @@ program
   .command('compare')
   .description('Compare snapshots to see changes')
   .option('-d, --date <date>', 'Compare snapshots from a specific date (YYYY-MM-DD)')
-  .option('-o, --old <snapshot>', 'Old snapshot filename')
-  .option('-n, --new <snapshot>', 'New snapshot filename')
+  .option('-o, --old <snapshot>', 'Old snapshot id, label or file name')
+  .option('-n, --new <snapshot>', 'New snapshot id, label or file name')
+  .option('--old-ref <ref>', 'Compare the documents as they were at a git commit, branch or tag')
+  .option('--new-ref <ref>', 'Compare with the documents at a git ref instead of a snapshot')
   .action(async options => {
     try {
-      const config = await loadOrCreateConfig();
-      await handleCompareCommand(config, options.date, options.old, options.new);
+      const config = await getConfig();
+      await handleCompareCommand(config, options);
     } catch (error) {
       console.error('Failed to compare snapshots:', error);
       process.exit(1);
     }
   });
 
+program
+  .command('links')
+  .description('Check the links in the documents and list the broken ones')
+  .option('--json', 'Output the results as JSON', false)
+  .action(async options => {
+    try {
+      const config = await getConfig();
+      await handleLinksCommand(config, options);
+    } catch (error) {
+      console.error('Failed to check links:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('health')
+  .description('Score the health of every document and list unfilled template sections')
+  .option('-f, --format <format>', 'Output format: table, markdown or json', 'table')
+  .action(async options => {
+    try {
+      const config = await getConfig();
+      await handleHealthCommand(config, options);
+    } catch (error) {
+      console.error('Failed to report documentation health:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('check')
+  .description('Check the documentation against the health rules, exits with 1 when one fails')
+  .option('-f, --format <format>', 'Output format: text, json, junit or github', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of printing it')
+  .option('--base <ref>', 'Git ref to find changed source files against, e.g. origin/main')
+  .action(async options => {
+    try {
+      const config = await getConfig();
+      await handleCheckCommand(config, options);
+    } catch (error) {
+      console.error('Failed to check documentation:', error);
+      process.exit(1);
+    }
+  });
+
 // Add AI commands
 program.addCommand(createAICommand());
 
+// Add config commands
+program.addCommand(createConfigCommand());
+
+// Add template pack commands
+program.addCommand(createPackCommand());
+
 program.parse();
@@ -4,20 +4,25 @@ import chalk from 'chalk';
 import { AIContextManager } from '../core/ai/context-manager';
 import { AISessionConfig } from '../core/ai/types';
 import { getConfig } from '../core/config';
+import { resolvePaths } from '../core/paths';
+import { ProjectConfig } from '../types';
 import path from 'path';
 
 /**
- * Default AI session configuration
+ * Builds the AI session configuration from the project configuration
  */
-const defaultAIConfig: AISessionConfig = {
-  enabled: true,
-  trackingLevel: 'standard',
-  autoSnapshot: true,
-  snapshotInterval: 300000, // 5 minutes
-  gitIntegration: true,
-  contextDirectory: 'docs/context',
-  sessionsDirectory: 'docs/context/ai_sessions',
-};
+function createSessionConfig(config: ProjectConfig, directory?: string): AISessionConfig {
+  const paths = resolvePaths(config);
+  return {
+    ...config.ai,
+    gitIntegration: config.git.enabled,
+    contextDirectory: directory || paths.docsDir,
+    sessionsDirectory: directory ? path.join(directory, 'ai_sessions') : paths.sessionsDir,
+    snapshotsDirectory: directory ? path.join(directory, 'snapshots') : paths.snapshotsDir,
+    retention: config.retention,
+    maxGradeLevel: config.health.maxGradeLevel,
+  };
+}
 
 /**
  * Creates and configures the AI command group
@@ -33,14 +38,7 @@ export function createAICommand(): Command {
     .option('-l, --limit <limit>', 'Limit number of sessions shown', '10')
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-          sessionsDirectory: options.directory
-            ? path.join(options.directory, 'ai_sessions')
-            : path.join(config.docsDir, 'context/ai_sessions'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         const sessions = await manager.listSessions();
@@ -78,14 +76,7 @@ export function createAICommand(): Command {
     .option('-d, --directory <directory>', 'Custom context directory')
     .action(async (sessionId, options) => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-          sessionsDirectory: options.directory
-            ? path.join(options.directory, 'ai_sessions')
-            : path.join(config.docsDir, 'context/ai_sessions'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
 
@@ -127,14 +118,13 @@ export function createAICommand(): Command {
     .option('-d, --directory <directory>', 'Set custom context directory')
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-          sessionsDirectory: options.directory
-            ? path.join(options.directory, 'ai_sessions')
-            : path.join(config.docsDir, 'context/ai_sessions'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
+
+        if (!aiConfig.enabled) {
+          console.log(chalk.yellow('AI session tracking is disabled in mementor.json.'));
+          console.log(chalk.dim('Enable it by setting'), chalk.cyan('"ai": { "enabled": true }'));
+          return;
+        }
 
         const manager = new AIContextManager(aiConfig);
         const session = manager.getCurrentSession();
@@ -166,11 +156,7 @@ export function createAICommand(): Command {
     .option('-d, --directory <directory>', 'Custom context directory')
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         const session = manager.getCurrentSession();
@@ -225,11 +211,7 @@ export function createAICommand(): Command {
     .option('-d, --directory <directory>', 'Custom context directory')
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         await manager.endSession(false); // Don't archive, just pause
@@ -252,11 +234,7 @@ export function createAICommand(): Command {
     .option('-s, --summary', 'Generate session summary', false)
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         await manager.endSession();
@@ -282,11 +260,7 @@ export function createAICommand(): Command {
     .option('-d, --directory <directory>', 'Custom context directory')
     .action(async (description, options) => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         await manager.updateTaskProgress({
@@ -313,14 +287,7 @@ export function createAICommand(): Command {
     .option('-k, --keep-original', 'Keep original files after archiving', false)
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-          sessionsDirectory: options.directory
-            ? path.join(options.directory, 'ai_sessions')
-            : path.join(config.docsDir, 'context/ai_sessions'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         const days = parseInt(options.olderThan);
@@ -362,14 +329,7 @@ export function createAICommand(): Command {
     .option('-f, --force', 'Skip confirmation prompt', false)
     .action(async options => {
       try {
-        const config = await getConfig();
-        const aiConfig: AISessionConfig = {
-          ...defaultAIConfig,
-          contextDirectory: options.directory || path.join(config.docsDir, 'context'),
-          sessionsDirectory: options.directory
-            ? path.join(options.directory, 'ai_sessions')
-            : path.join(config.docsDir, 'context/ai_sessions'),
-        };
+        const aiConfig = createSessionConfig(await getConfig(), options.directory);
 
         const manager = new AIContextManager(aiConfig);
         const days = parseInt(options.olderThan);
@@ -0,0 +1,83 @@
+import { ProjectConfig } from '../types';
+import { getDefaultConfig } from '../core/config';
+import { CheckReport, runHealthChecks } from '../services/healthChecks';
+import { handleCheckCommand } from './check';
+
+jest.mock('../services/healthChecks');
+
+const config: ProjectConfig = getDefaultConfig('/project');
+
+const report: CheckReport = {
+  passed: false,
+  checkedAt: '2025-03-31T12:00:00.000Z',
+  results: [
+    {
+      rule: 'broken-links',
+      status: 'failed',
+      message: '2 problem(s)',
+      failures: [
+        { message: 'Link to <setup> & "install" is broken', file: 'guide.md', line: 4 },
+        { message: '100% done\nbut line two', file: 'notes, v2.md' },
+      ],
+    },
+    { rule: 'completion', status: 'passed', message: 'All tasks done', failures: [] },
+    { rule: 'snapshot-age', status: 'skipped', message: 'No snapshots <yet>', failures: [] },
+  ],
+};
+
+let log: jest.SpyInstance;
+
+async function check(format: string): Promise<string> {
+  await handleCheckCommand(config, { format });
+  return log.mock.calls[0][0];
+}
+
+beforeEach(() => {
+  jest.mocked(runHealthChecks).mockResolvedValue(report);
+  log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  process.exitCode = undefined;
+});
+
+describe('handleCheckCommand', () => {
+  it('writes JUnit XML with one escaped test case per rule', async () => {
+    const xml = await check('junit');
+
+    expect(xml).toContain('<testsuites name="mementor check" tests="3" failures="1" skipped="1">');
+    expect(xml).toContain(
+      '<failure message="2 problem(s)">guide.md:4: Link to &lt;setup&gt; &amp; &quot;install&quot; is broken\n' +
+        'notes, v2.md: 100% done\nbut line two</failure>',
+    );
+    expect(xml).toContain('<skipped message="No snapshots &lt;yet&gt;"/>');
+    expect(xml.match(/<testcase /g)).toHaveLength(3);
+  });
+
+  it('writes GitHub annotations with escaped properties and messages', async () => {
+    expect((await check('github')).split('\n')).toEqual([
+      '::error file=guide.md,line=4,title=mementor check%3A broken-links::Link to <setup> & "install" is broken',
+      '::error file=notes%2C v2.md,title=mementor check%3A broken-links::100%25 done%0Abut line two',
+      'Documentation checks failed',
+    ]);
+  });
+
+  it('sets a failing exit code when a rule fails', async () => {
+    await check('json');
+    expect(process.exitCode).toBe(1);
+
+    jest.mocked(runHealthChecks).mockResolvedValue({ ...report, passed: true, results: [] });
+    process.exitCode = undefined;
+    await check('json');
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it('rejects unknown formats', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(handleCheckCommand(config, { format: 'xml' })).rejects.toThrow(
+      'Unknown format "xml", expected text, json, junit, github',
+    );
+  });
+});
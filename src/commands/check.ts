@@ -0,0 +1,161 @@
+/* eslint-disable no-console */
+import chalk from 'chalk';
+import path from 'path';
+import { ProjectConfig } from '../types';
+import { CheckFailure, CheckReport, runHealthChecks } from '../services/healthChecks';
+import * as fsPlan from '../core/file-plan';
+
+export type CheckFormat = 'text' | 'json' | 'junit' | 'github';
+
+const FORMATS: CheckFormat[] = ['text', 'json', 'junit', 'github'];
+
+export interface CheckCommandOptions {
+  format?: string;
+  output?: string;
+  base?: string;
+}
+
+function location(failure: CheckFailure): string {
+  if (!failure.file) return '';
+  return failure.line ? `${failure.file}:${failure.line}` : failure.file;
+}
+
+function formatText(report: CheckReport): string {
+  const lines: string[] = [];
+  for (const check of report.results) {
+    const mark =
+      check.status === 'passed'
+        ? chalk.green('✓')
+        : check.status === 'failed'
+          ? chalk.red('✗')
+          : chalk.dim('-');
+    lines.push(`${mark} ${check.rule} ${chalk.dim(check.message)}`);
+    for (const failure of check.failures) {
+      const where = location(failure);
+      lines.push(`    ${where ? chalk.dim(`${where} `) : ''}${failure.message}`);
+    }
+  }
+
+  const failed = report.results.filter(check => check.status === 'failed').length;
+  lines.push(
+    '',
+    report.passed
+      ? chalk.green('Documentation checks passed')
+      : chalk.red(`${failed} documentation check(s) failed`),
+  );
+  return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Formats the report as JUnit XML with one test case per rule.
+ */
+function formatJUnit(report: CheckReport): string {
+  const count = (status: string): number =>
+    report.results.filter(check => check.status === status).length;
+  const suite = `tests="${report.results.length}" failures="${count('failed')}" skipped="${count('skipped')}"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mementor check" ${suite}>`,
+    `  <testsuite name="mementor check" ${suite} timestamp="${report.checkedAt}">`,
+  ];
+  for (const check of report.results) {
+    lines.push(`    <testcase name="${check.rule}" classname="mementor.check">`);
+    if (check.status === 'failed') {
+      const details = check.failures.map(failure =>
+        [location(failure), failure.message].filter(Boolean).join(': '),
+      );
+      lines.push(
+        `      <failure message="${escapeXml(check.message)}">${escapeXml(details.join('\n'))}</failure>`,
+      );
+    } else if (check.status === 'skipped') {
+      lines.push(`      <skipped message="${escapeXml(check.message)}"/>`);
+    }
+    lines.push('    </testcase>');
+  }
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
+
+/**
+ * Escapes a workflow command value, see the GitHub Actions documentation on workflow commands.
+ */
+function escapeAnnotation(text: string, property = false): string {
+  const escaped = text.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  return property ? escaped.replace(/:/g, '%3A').replace(/,/g, '%2C') : escaped;
+}
+
+/**
+ * Formats the failures as GitHub Actions error annotations, shown inline on pull requests.
+ */
+function formatGitHub(report: CheckReport): string {
+  const lines = report.results.flatMap(check =>
+    check.failures.map(failure => {
+      const properties = [
+        failure.file ? `file=${escapeAnnotation(failure.file, true)}` : '',
+        failure.line ? `line=${failure.line}` : '',
+        `title=${escapeAnnotation(`mementor check: ${check.rule}`, true)}`,
+      ].filter(Boolean);
+      return `::error ${properties.join(',')}::${escapeAnnotation(failure.message)}`;
+    }),
+  );
+  lines.push(report.passed ? 'Documentation checks passed' : 'Documentation checks failed');
+  return lines.join('\n');
+}
+
+/**
+ * Evaluates the documentation rules configured under `health` and prints the report. Sets a
+ * failing exit code when a rule fails, so CI can block the change.
+ */
+export async function handleCheckCommand(
+  config: ProjectConfig,
+  options: CheckCommandOptions = {},
+): Promise<void> {
+  try {
+    const format = (options.format ?? 'text') as CheckFormat;
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format "${options.format}", expected ${FORMATS.join(', ')}`);
+    }
+
+    // In a GitHub pull request workflow, compare with the branch the pull request targets
+    const base =
+      options.base ??
+      (process.env.GITHUB_BASE_REF ? `origin/${process.env.GITHUB_BASE_REF}` : undefined);
+    const report = await runHealthChecks(config, { base });
+
+    const output =
+      format === 'json'
+        ? JSON.stringify(report, null, 2)
+        : format === 'junit'
+          ? formatJUnit(report)
+          : format === 'github'
+            ? formatGitHub(report)
+            : formatText(report);
+
+    if (options.output) {
+      await fsPlan.writeFile(path.resolve(options.output), output + '\n');
+      console.log(
+        report.passed
+          ? chalk.green(`Documentation checks passed, report written to ${options.output}`)
+          : chalk.red(`Documentation checks failed, report written to ${options.output}`),
+      );
+    } else {
+      console.log(output);
+    }
+
+    if (!report.passed) process.exitCode = 1;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to check documentation:', error.message);
+    }
+    throw error;
+  }
+}
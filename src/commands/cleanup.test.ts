@@ -0,0 +1,118 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ProjectConfig } from '../types';
+import { getDefaultConfig } from '../core/config';
+import { resolvePaths } from '../core/paths';
+import { createSnapshot } from '../services/snapshotStore';
+import { handleCleanupCommand, handleCleanupUndoCommand } from './cleanup';
+
+let root: string;
+let config: ProjectConfig;
+let snapshotsDir: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-cleanup-'));
+  config = { ...getDefaultConfig(root), docsDir: path.join(root, 'docs', 'context') };
+  snapshotsDir = resolvePaths(config).snapshotsDir;
+  await fs.mkdir(snapshotsDir, { recursive: true });
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function write(file: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(path.join(snapshotsDir, file)), { recursive: true });
+  await fs.writeFile(path.join(snapshotsDir, file), content);
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs
+    .access(path.join(snapshotsDir, file))
+    .then(() => true)
+    .catch(() => false);
+}
+
+describe('handleCleanupCommand', () => {
+  it('moves snapshots into the UTC day of the timestamp in their name', async () => {
+    // Just before midnight UTC, which is the next day in time zones east of UTC
+    await write('snapshot_2024-05-01T235959000Z.md', '# Active Context\n');
+    const moved = path.join('2024', '05', '01', 'snapshot_2024-05-01T235959000Z.md');
+
+    await handleCleanupCommand(config);
+
+    expect(await exists(moved)).toBe(true);
+    expect(await exists('snapshot_2024-05-01T235959000Z.md')).toBe(false);
+  });
+
+  it('falls back to the date recorded in the snapshot', async () => {
+    const snapshot = createSnapshot({
+      trigger: 'manual',
+      createdAt: new Date('2024-06-02T10:00:00.000Z'),
+      documents: [],
+    });
+    await write(path.join('misc', 'snapshot_renamed.json'), JSON.stringify(snapshot));
+    await write('snapshot_undated.md', 'no date');
+
+    await handleCleanupCommand(config);
+
+    expect(await exists(path.join('2024', '06', '02', 'snapshot_renamed.json'))).toBe(true);
+    expect(await exists('snapshot_undated.md')).toBe(true);
+    expect(await exists('misc')).toBe(false);
+  });
+
+  it('keeps both snapshots when the target name is taken', async () => {
+    await write(path.join('2024', '05', '01', 'snapshot_2024-05-01T100000000Z.md'), 'kept');
+    await write(path.join('old', 'snapshot_2024-05-01T100000000Z.md'), 'moved');
+
+    await handleCleanupCommand(config);
+
+    const dayDir = path.join('2024', '05', '01');
+    expect(await fs.readdir(path.join(snapshotsDir, dayDir))).toEqual([
+      'snapshot_2024-05-01T100000000Z-1.md',
+      'snapshot_2024-05-01T100000000Z.md',
+    ]);
+  });
+});
+
+describe('handleCleanupUndoCommand', () => {
+  const organized = path.join('2024', '05', '01', 'snapshot_2024-05-01T100000000Z.md');
+
+  it('moves the snapshots of the last cleanup back', async () => {
+    await write(path.join('old', 'snapshot_2024-05-01T100000000Z.md'), 'first');
+    await handleCleanupCommand(config);
+    await write('snapshot_2024-05-02T100000000Z.md', 'second');
+    await handleCleanupCommand(config);
+
+    await handleCleanupUndoCommand(config);
+    expect(await exists('snapshot_2024-05-02T100000000Z.md')).toBe(true);
+    expect(await exists(organized)).toBe(true);
+
+    await handleCleanupUndoCommand(config);
+    expect(await exists(path.join('old', 'snapshot_2024-05-01T100000000Z.md'))).toBe(true);
+  });
+
+  it('skips snapshots whose original location is taken again', async () => {
+    await write('snapshot_2024-05-01T100000000Z.md', 'moved');
+    await handleCleanupCommand(config);
+    await write('snapshot_2024-05-01T100000000Z.md', 'new');
+
+    await handleCleanupUndoCommand(config);
+
+    expect(
+      await fs.readFile(path.join(snapshotsDir, 'snapshot_2024-05-01T100000000Z.md'), 'utf-8'),
+    ).toBe('new');
+    expect(await exists(organized)).toBe(true);
+  });
+
+  it('reports when there is nothing to undo', async () => {
+    await handleCleanupUndoCommand(config);
+
+    expect(console.warn).toHaveBeenCalledWith(
+      'Nothing to undo, no cleanup has moved any snapshots.',
+    );
+  });
+});
@@ -1,6 +1,19 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { glob } from 'glob';
 import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import { convertLegacySnapshot } from '../services/legacySnapshots';
+import { SnapshotStore, parseSnapshotId } from '../services/snapshotStore';
+import * as fsPlan from '../core/file-plan';
+
+const MOVE_LOG = 'cleanup-log.json';
+
+interface CleanupRun {
+  date: string;
+  /** Paths relative to the snapshots directory */
+  moves: Array<{ from: string; to: string }>;
+}
 
 async function isEmptyDir(dir: string): Promise<boolean> {
   try {
@@ -23,7 +36,7 @@ async function removeEmptyDirs(dir: string): Promise<void> {
         await removeEmptyDirs(fullPath);
         // Check if directory is empty after cleaning its contents
         if (await isEmptyDir(fullPath)) {
-          await fs.rmdir(fullPath);
+          await fsPlan.remove(fullPath);
         }
       }
     }
@@ -32,50 +45,100 @@ async function removeEmptyDirs(dir: string): Promise<void> {
   }
 }
 
-export async function handleCleanupCommand(_config: ProjectConfig): Promise<void> {
+async function readMoveLog(snapshotsDir: string): Promise<CleanupRun[]> {
+  try {
+    const parsed = JSON.parse(await fsPlan.readFile(path.join(snapshotsDir, MOVE_LOG)));
+    return Array.isArray(parsed.runs) ? parsed.runs : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeMoveLog(snapshotsDir: string, runs: CleanupRun[]): Promise<void> {
+  await fsPlan.writeFile(
+    path.join(snapshotsDir, MOVE_LOG),
+    JSON.stringify({ runs }, null, 2) + '\n',
+  );
+}
+
+/**
+ * Finds when a snapshot was taken: from the id in its file name, or else from its content
+ * (`createdAt`, the `timestamp` of older watcher snapshots or the `Created` metadata field).
+ * @returns The time, or null when the snapshot does not record it
+ */
+async function snapshotDate(file: string): Promise<Date | null> {
+  const fromName = parseSnapshotId(path.basename(file).replace(/^snapshot_|\.(json|md)$/g, ''));
+  if (fromName) return fromName;
+
   try {
-    const docsDir = path.join(process.cwd(), 'docs/context');
-    const snapshotsDir = path.join(docsDir, 'snapshots');
-
-    // Get all files in snapshots directory
-    const files = await fs.readdir(snapshotsDir);
-
-    // Move old snapshot files to the correct date-based directories
-    for (const file of files) {
-      if (file.startsWith('snapshot_') && file.endsWith('.md')) {
-        const filePath = path.join(snapshotsDir, file);
-        const stat = await fs.stat(filePath);
-
-        // Extract date from filename or use file creation date
-        const date = new Date(stat.birthtime);
-        const year = date.getFullYear().toString();
-        const month = (date.getMonth() + 1).toString().padStart(2, '0');
-        const day = date.getDate().toString().padStart(2, '0');
-
-        // Create year/month/day directories
-        const yearDir = path.join(snapshotsDir, year);
-        const monthDir = path.join(yearDir, month);
-        const dayDir = path.join(monthDir, day);
-
-        await fs.mkdir(yearDir, { recursive: true });
-        await fs.mkdir(monthDir, { recursive: true });
-        await fs.mkdir(dayDir, { recursive: true });
-
-        // Format time from the original filename or use current time
-        const timeStr = date.toTimeString().split(' ')[0].replace(/:/g, '');
-        const newFileName = `snapshot_${timeStr}.md`;
-        const newPath = path.join(dayDir, newFileName);
-
-        // Move the file
-        await fs.rename(filePath, newPath);
-        console.warn(`✓ Moved ${file} to ${path.relative(snapshotsDir, newPath)}`);
+    const content = await fsPlan.readFile(file);
+    const legacy = convertLegacySnapshot(file, content);
+    const date = new Date(legacy ? legacy.snapshot.createdAt : JSON.parse(content).createdAt);
+    return isNaN(date.getTime()) ? null : date;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks a free location for a file, adding `-1`, `-2`, … before the extension when needed.
+ */
+async function freeLocation(target: string): Promise<string> {
+  const ext = path.extname(target);
+  const base = target.slice(0, -ext.length);
+  let candidate = target;
+  for (let n = 1; await fsPlan.exists(candidate); n++) {
+    candidate = `${base}-${n}${ext}`;
+  }
+  return candidate;
+}
+
+export async function handleCleanupCommand(config: ProjectConfig): Promise<void> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const run: CleanupRun = { date: new Date().toISOString(), moves: [] };
+
+    // Every snapshot, in whatever format, that is not below the folder of the day it was taken
+    const files = await glob('**/snapshot_*.{json,md}', {
+      cwd: snapshotsDir,
+      ignore: 'objects/**',
+    });
+
+    for (const file of files.sort()) {
+      const filePath = path.join(snapshotsDir, file);
+      const date = await snapshotDate(filePath);
+      if (!date) {
+        console.warn(`⚠️  Skipped ${file}: no timestamp in its name or content`);
+        continue;
       }
+
+      // Snapshot folders use the UTC date, like snapshot ids
+      const [year, month, day] = date.toISOString().slice(0, 10).split('-');
+      const dayDir = path.join(snapshotsDir, year, month, day);
+      if (path.dirname(filePath) === dayDir) continue;
+
+      // Keep the file name, it holds the original timestamp
+      await fsPlan.mkdir(dayDir);
+      const newPath = await freeLocation(path.join(dayDir, path.basename(file)));
+      await fsPlan.rename(filePath, newPath);
+
+      run.moves.push({ from: file, to: path.relative(snapshotsDir, newPath) });
+      console.warn(`✓ Moved ${file} to ${path.relative(snapshotsDir, newPath)}`);
+    }
+
+    if (run.moves.length > 0) {
+      await writeMoveLog(snapshotsDir, [...(await readMoveLog(snapshotsDir)), run]);
+      await new SnapshotStore(snapshotsDir).rebuildIndex();
     }
 
     // Clean up empty directories
     await removeEmptyDirs(snapshotsDir);
 
-    console.warn('✨ Snapshot cleanup completed successfully!');
+    console.warn(
+      run.moves.length > 0
+        ? `✨ Moved ${run.moves.length} snapshot(s), run \`mementor cleanup --undo\` to move them back`
+        : '✨ All snapshots are already organized',
+    );
   } catch (error) {
     if (error instanceof Error) {
       console.error('Failed to clean up snapshots:', error.message);
@@ -83,3 +146,44 @@ export async function handleCleanupCommand(_config: ProjectConfig): Promise<void
     throw error;
   }
 }
+
+/**
+ * Moves the snapshots of the last cleanup back to where they were.
+ */
+export async function handleCleanupUndoCommand(config: ProjectConfig): Promise<void> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const runs = await readMoveLog(snapshotsDir);
+    const run = runs.pop();
+    if (!run) {
+      console.warn('Nothing to undo, no cleanup has moved any snapshots.');
+      return;
+    }
+
+    let restored = 0;
+    for (const { from, to } of [...run.moves].reverse()) {
+      const source = path.join(snapshotsDir, to);
+      const target = path.join(snapshotsDir, from);
+      if (!(await fsPlan.exists(source)) || (await fsPlan.exists(target))) {
+        console.warn(`⚠️  Skipped ${to}: it was moved or ${from} exists again`);
+        continue;
+      }
+
+      await fsPlan.mkdir(path.dirname(target));
+      await fsPlan.rename(source, target);
+      restored++;
+      console.warn(`✓ Moved ${to} back to ${from}`);
+    }
+
+    await writeMoveLog(snapshotsDir, runs);
+    await new SnapshotStore(snapshotsDir).rebuildIndex();
+    await removeEmptyDirs(snapshotsDir);
+
+    console.warn(`✨ Moved ${restored} snapshot(s) back from the cleanup of ${run.date}`);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to undo the cleanup:', error.message);
+    }
+    throw error;
+  }
+}
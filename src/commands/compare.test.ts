@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SimpleGit, simpleGit } from 'simple-git';
+import { ProjectConfig } from '../types';
+import { getDefaultConfig } from '../core/config';
+import { handleCompareCommand } from './compare';
+
+let root: string;
+let config: ProjectConfig;
+let git: SimpleGit;
+let warn: jest.SpyInstance;
+
+async function commit(content: string, message: string): Promise<void> {
+  await fs.writeFile(path.join(config.docsDir, 'progress.md'), content);
+  await git.add('.');
+  await git.commit(message);
+}
+
+beforeEach(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-compare-')));
+  config = { ...getDefaultConfig(root), docsDir: path.join(root, 'docs', 'context') };
+  await fs.mkdir(config.docsDir, { recursive: true });
+  git = simpleGit(root);
+  await git.init();
+  await git.addConfig('user.name', 'Test');
+  await git.addConfig('user.email', 'test@example.com');
+  await git.addConfig('commit.gpgsign', 'false');
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('handleCompareCommand', () => {
+  it('compares the documents at two git refs', async () => {
+    await commit('# Progress\n\n- Planned the store\n', 'Plan');
+    await git.addTag('v1.0.0');
+    await commit('# Progress\n\n- Planned the store\n- Shipped the index\n', 'Ship');
+
+    await handleCompareCommand(config, { oldRef: 'v1.0.0', newRef: 'HEAD' });
+
+    const output = warn.mock.calls[0][0] as string;
+    expect(output).toContain('Old: git:v1.0.0');
+    expect(output).toContain('New: git:HEAD');
+    expect(output).toContain('+ - Shipped the index');
+  });
+
+  it('needs a stored snapshot to compare a ref with when no newer side is given', async () => {
+    await commit('# Progress\n', 'Plan');
+
+    await expect(handleCompareCommand(config, { oldRef: 'HEAD' })).rejects.toThrow(
+      'No snapshots to compare with, run `mementor snapshot` first',
+    );
+  });
+});
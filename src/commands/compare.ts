@@ -1,80 +1,86 @@
-import fs from 'fs/promises';
 import path from 'path';
-import { ProjectConfig } from '../types';
+import { ProjectConfig, Snapshot } from '../types';
 import { SnapshotComparer } from '../services/snapshotComparer';
+import { SnapshotStore, utcDayRange } from '../services/snapshotStore';
+import { snapshotAtRef } from '../services/snapshotGit';
+import { resolvePaths } from '../core/paths';
 
-async function walkDirectory(dir: string, snapshots: string[]): Promise<void> {
-  const items = await fs.readdir(dir);
-  for (const item of items) {
-    const fullPath = path.join(dir, item);
-    const stat = await fs.stat(fullPath);
-
-    if (stat.isDirectory()) {
-      await walkDirectory(fullPath, snapshots);
-    } else if (item.startsWith('snapshot_') && item.endsWith('.md')) {
-      snapshots.push(fullPath);
-    }
-  }
+export interface CompareOptions {
+  date?: string;
+  old?: string;
+  new?: string;
+  oldRef?: string;
+  newRef?: string;
 }
 
-async function findSnapshots(snapshotsDir: string, date?: string): Promise<string[]> {
-  if (date) {
-    // Parse date components
-    const [year, month, day] = date.split('-').map(n => n.padStart(2, '0'));
-    const targetDir = path.join(snapshotsDir, year, month, day);
+async function findSnapshots(store: SnapshotStore, date?: string): Promise<string[]> {
+  const range = date ? utcDayRange(date) : undefined;
+  const entries = await store.query({ since: range?.start, until: range?.end });
+  return entries.map(entry => store.pathFor(entry));
+}
 
-    try {
-      const files = await fs.readdir(targetDir);
-      return files
-        .filter(file => file.startsWith('snapshot_') && file.endsWith('.md'))
-        .map(file => path.join(targetDir, file))
-        .sort();
-    } catch {
-      return [];
-    }
-  } else {
-    // Find all snapshots recursively
-    const snapshots: string[] = [];
-    await walkDirectory(snapshotsDir, snapshots);
-    return snapshots.sort();
+/**
+ * Loads one side of the comparison from a git ref or a stored snapshot.
+ */
+async function loadSide(
+  store: SnapshotStore,
+  docsDir: string,
+  reference?: string,
+  ref?: string,
+): Promise<{ snapshot: Snapshot; name: string } | null> {
+  if (ref) {
+    return { snapshot: await snapshotAtRef(docsDir, ref), name: `git:${ref}` };
+  }
+  if (reference) {
+    const file = await store.resolve(reference);
+    return { snapshot: await store.load(file), name: path.basename(file) };
   }
+  return null;
 }
 
 export async function handleCompareCommand(
   config: ProjectConfig,
-  date?: string,
-  oldSnapshot?: string,
-  newSnapshot?: string,
+  options: CompareOptions = {},
 ): Promise<void> {
   try {
-    const docsDir = path.join(process.cwd(), 'docs/context');
-    const snapshotsDir = path.join(docsDir, 'snapshots');
-    const comparer = new SnapshotComparer();
+    const { docsDir, snapshotsDir } = resolvePaths(config);
+    const store = new SnapshotStore(snapshotsDir);
+    const comparer = new SnapshotComparer(snapshotsDir);
 
-    let oldPath: string;
-    let newPath: string;
+    if (options.old || options.new || options.oldRef || options.newRef) {
+      // Compare specific snapshots, given by id, label, file name or git ref
+      const old = await loadSide(store, docsDir, options.old, options.oldRef);
+      if (!old) {
+        throw new Error('Give --old or --old-ref to compare against');
+      }
 
-    if (oldSnapshot && newSnapshot) {
-      // Compare specific snapshots
-      oldPath = path.join(snapshotsDir, oldSnapshot);
-      newPath = path.join(snapshotsDir, newSnapshot);
-    } else {
-      // Find snapshots for the given date or latest snapshots
-      const snapshots = await findSnapshots(snapshotsDir, date);
-      if (snapshots.length < 2) {
-        console.error('Need at least 2 snapshots to compare. Found:', snapshots.length);
-        return;
+      // Without a newer side, compare with the latest snapshot
+      let current = await loadSide(store, docsDir, options.new, options.newRef);
+      if (!current) {
+        const latest = (await store.list()).pop();
+        if (!latest) {
+          throw new Error('No snapshots to compare with, run `mementor snapshot` first');
+        }
+        current = { snapshot: await store.load(latest), name: path.basename(latest) };
       }
 
-      oldPath = snapshots[snapshots.length - 2];
-      newPath = snapshots[snapshots.length - 1];
+      const diff = comparer.compare(old.snapshot, current.snapshot, old.name, current.name);
+      console.warn(comparer.formatDiff(diff));
+      return;
     }
 
-    // Ensure both snapshots exist
-    await Promise.all([fs.access(oldPath), fs.access(newPath)]);
+    // Find snapshots for the given date or latest snapshots
+    const snapshots = await findSnapshots(store, options.date);
+    if (snapshots.length < 2) {
+      console.error('Need at least 2 snapshots to compare. Found:', snapshots.length);
+      return;
+    }
 
     // Compare snapshots
-    const diff = await comparer.compareSnapshots(oldPath, newPath);
+    const diff = await comparer.compareSnapshots(
+      snapshots[snapshots.length - 2],
+      snapshots[snapshots.length - 1],
+    );
 
     // Format and display the comparison
     console.warn(comparer.formatDiff(diff));
@@ -0,0 +1,254 @@
+/* eslint-disable no-console */
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import {
+  ConfigLayer,
+  ConfigValidationError,
+  RawConfig,
+  flattenConfig,
+  getConfigPath,
+  getConfigValue,
+  getEnvironmentVariableName,
+  getUserConfigPath,
+  migrateConfigFile,
+  parseConfigValue,
+  readConfigFile,
+  readEnvironmentConfig,
+  resolveConfig,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfigFile,
+} from '../core/config';
+import { CONFIG_VERSION } from '../core/config-migrations';
+import { getSchemaForKey, validateConfig } from '../core/config-schema';
+
+/**
+ * Describes where a configuration value came from
+ */
+function formatOrigin(layer: ConfigLayer | undefined, key: string): string {
+  // Objects are assembled from several layers, only leaf values have a single origin
+  if (!layer) return 'multiple sources';
+
+  switch (layer.source) {
+    case 'user':
+      return `user: ${layer.file}`;
+    case 'project':
+      return `project: ${path.relative(process.cwd(), layer.file!)}`;
+    case 'env':
+      return `env: ${getEnvironmentVariableName(key)}`;
+    case 'cli':
+      return 'cli: --set';
+    default:
+      return layer.source;
+  }
+}
+
+/**
+ * Picks the configuration file a command should edit
+ */
+function targetFile(options: { global?: boolean }): string {
+  return options.global ? getUserConfigPath() : getConfigPath();
+}
+
+/**
+ * Reads the configuration file a command should edit
+ */
+function readTargetFile(options: { global?: boolean }): Promise<RawConfig | null> {
+  return readConfigFile(targetFile(options), { legacy: !options.global });
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Creates and configures the config command group
+ */
+export function createConfigCommand(): Command {
+  const config = new Command('config');
+  config.description('Inspect and edit Mementor configuration');
+
+  // Print a single value
+  config
+    .command('get')
+    .description('Print the effective value of a configuration key')
+    .argument('<key>', 'Dotted configuration key, e.g. git.commitPrefix')
+    .option('--show-origin', 'Show where the value came from', false)
+    .action(async (key, options) => {
+      try {
+        const { config: effective, origins } = await resolveConfig();
+        const value = getConfigValue(effective as unknown as RawConfig, key);
+
+        if (value === undefined) {
+          if (!getSchemaForKey(key)) {
+            console.error(chalk.red(`Unknown configuration key "${key}"`));
+          }
+          process.exit(1);
+        }
+
+        console.log(
+          options.showOrigin
+            ? `${formatValue(value)} ${chalk.dim(`(${formatOrigin(origins[key], key)})`)}`
+            : formatValue(value),
+        );
+      } catch (error) {
+        console.error(chalk.red('Failed to read configuration:'), error);
+        process.exit(1);
+      }
+    });
+
+  // Write a value to mementor.json
+  config
+    .command('set')
+    .description('Set a configuration value in mementor.json')
+    .argument('<key>', 'Dotted configuration key, e.g. features.autoSnapshot')
+    .argument('<value>', 'New value; booleans, numbers and comma-separated lists are converted')
+    .option('-g, --global', 'Write to the user configuration shared by all projects', false)
+    .action(async (key, input, options) => {
+      try {
+        const file = targetFile(options);
+        const values = (await readTargetFile(options)) ?? { configVersion: CONFIG_VERSION };
+        setConfigValue(values, key, parseConfigValue(key, input));
+        await writeConfigFile(file, values);
+
+        console.log(chalk.green('✓'), `${key} = ${formatValue(getConfigValue(values, key))}`);
+      } catch (error) {
+        console.error(chalk.red('Failed to set configuration value:'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // Remove a value from mementor.json
+  config
+    .command('unset')
+    .description('Remove a configuration value from mementor.json, reverting it to its default')
+    .argument('<key>', 'Dotted configuration key')
+    .option('-g, --global', 'Remove from the user configuration shared by all projects', false)
+    .action(async (key, options) => {
+      try {
+        const file = targetFile(options);
+        const values = await readTargetFile(options);
+        if (!values || !unsetConfigValue(values, key)) {
+          console.log(chalk.yellow(`${key} is not set in ${file}`));
+          return;
+        }
+
+        await writeConfigFile(file, values);
+        console.log(chalk.green('✓'), `Removed ${key}`);
+      } catch (error) {
+        console.error(chalk.red('Failed to unset configuration value:'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // List every effective value
+  config
+    .command('list')
+    .description('List every effective configuration value and where it came from')
+    .option('--json', 'Output the effective configuration as JSON', false)
+    .action(async options => {
+      try {
+        const { config: effective, origins } = await resolveConfig();
+
+        if (options.json) {
+          console.log(JSON.stringify(effective, null, 2));
+          return;
+        }
+
+        const entries = Object.entries(flattenConfig(effective as unknown as RawConfig));
+        const width = Math.max(...entries.map(([key]) => key.length));
+
+        entries.forEach(([key, value]) => {
+          console.log(
+            `${chalk.cyan(key.padEnd(width))}  ${formatValue(value)} ${chalk.dim(`(${formatOrigin(origins[key], key)})`)}`,
+          );
+        });
+      } catch (error) {
+        console.error(chalk.red('Failed to list configuration:'), error);
+        process.exit(1);
+      }
+    });
+
+  // Validate every configuration source against the schema
+  config
+    .command('validate')
+    .description('Validate the user and project configuration files and MEMENTOR_* variables')
+    .action(async () => {
+      let valid = true;
+
+      const files = [
+        { file: getUserConfigPath(), legacy: false },
+        { file: getConfigPath(), legacy: true },
+      ];
+      for (const { file, legacy } of files) {
+        try {
+          const values = await readConfigFile(file, { legacy });
+          if (!values) continue;
+
+          const issues = validateConfig(values);
+          if (issues.length === 0) {
+            console.log(chalk.green('✓'), `${file} is valid`);
+            continue;
+          }
+
+          valid = false;
+          console.error(chalk.red(`✗ ${file} has ${issues.length} problem(s):`));
+          issues.forEach(issue => console.error(`  - ${chalk.cyan(issue.key)} ${issue.message}`));
+        } catch (error) {
+          valid = false;
+          console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+        }
+      }
+
+      try {
+        readEnvironmentConfig();
+      } catch (error) {
+        valid = false;
+        console.error(chalk.red((error as ConfigValidationError).message));
+      }
+
+      if (!valid) {
+        process.exit(1);
+      }
+    });
+
+  // Upgrade mementor.json to the current format
+  config
+    .command('migrate')
+    .description('Upgrade mementor.json written by an earlier version to the current format')
+    .action(async () => {
+      try {
+        const file = getConfigPath();
+        const applied = await migrateConfigFile(file);
+        if (applied.length === 0) {
+          console.log(chalk.green('✓'), `${file} already uses config version ${CONFIG_VERSION}`);
+          return;
+        }
+
+        applied.forEach(migration =>
+          console.log(
+            chalk.green('✓'),
+            `Migrated to config version ${migration.to}: ${migration.description}`,
+          ),
+        );
+      } catch (error) {
+        console.error(chalk.red('Failed to migrate configuration:'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  // Print the config file location
+  config
+    .command('path')
+    .description('Print the location of the project configuration file')
+    .option('-g, --global', 'Print the location of the user configuration file', false)
+    .action(options => {
+      console.log(targetFile(options));
+    });
+
+  return config;
+}
@@ -0,0 +1,197 @@
+/* eslint-disable no-console */
+import chalk from 'chalk';
+import { ProjectConfig } from '../types';
+import { DocumentHealth, HealthReport, buildHealthReport } from '../services/healthReport';
+
+export type HealthFormat = 'table' | 'markdown' | 'json';
+
+const FORMATS: HealthFormat[] = ['table', 'markdown', 'json'];
+
+export interface HealthOptions {
+  format?: string;
+}
+
+const COLUMNS = [
+  'DOCUMENT',
+  'SCORE',
+  'WORDS',
+  'SECTIONS',
+  'PLACEHOLDERS',
+  'BROKEN',
+  'TODOS',
+  'STALE',
+];
+
+function documentRow(doc: DocumentHealth): string[] {
+  return [
+    doc.path,
+    String(doc.score),
+    String(doc.metrics.word_count),
+    String(doc.metrics.section_count),
+    String(doc.placeholders.length),
+    String(doc.brokenLinks.length),
+    String(doc.metrics.todo_count),
+    doc.staleness ? String(doc.staleness.score) : '-',
+  ];
+}
+
+function describeStaleness(doc: DocumentHealth): string | null {
+  const staleness = doc.staleness;
+  if (!staleness || staleness.score === 0) return null;
+  return `${staleness.covers.join(', ')} changed in ${staleness.commits} commit(s) over ${staleness.days} day(s) since the document was updated (stale score ${staleness.score})`;
+}
+
+function colorScore(score: number, text: string = String(score)): string {
+  if (score >= 80) return chalk.green(text);
+  if (score >= 50) return chalk.yellow(text);
+  return chalk.red(text);
+}
+
+function printTable(report: HealthReport): void {
+  const rows = report.documents.map(documentRow);
+  const widths = COLUMNS.map((title, i) =>
+    Math.max(title.length, ...rows.map(row => row[i].length)),
+  );
+  const format = (row: string[]): string =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  console.log(chalk.dim(format(COLUMNS)));
+  report.documents.forEach((doc, index) => {
+    const line = format(rows[index]);
+    // Color only the score column so the padding stays aligned
+    const scoreStart = widths[0] + 2;
+    console.log(
+      line.slice(0, scoreStart) +
+        colorScore(doc.score, line.slice(scoreStart, scoreStart + widths[1])) +
+        line.slice(scoreStart + widths[1]),
+    );
+  });
+
+  const flagged = report.documents.filter(
+    doc =>
+      doc.placeholders.length > 0 ||
+      doc.brokenLinks.length > 0 ||
+      doc.metrics.readability_sections?.some(section => section.difficult) ||
+      describeStaleness(doc),
+  );
+  for (const doc of flagged) {
+    console.log(`\n${chalk.bold(doc.path)}`);
+    const stale = describeStaleness(doc);
+    if (stale) console.log(`  ${chalk.red(stale)}`);
+    for (const section of doc.placeholders) {
+      const state = section.empty ? 'not filled in' : 'still has placeholders';
+      console.log(`  ${chalk.dim(`${section.line}:`)} ${chalk.yellow(section.title)} ${state}`);
+      section.placeholders.forEach(text => console.log(chalk.dim(`      - ${text}`)));
+    }
+    for (const section of doc.metrics.readability_sections ?? []) {
+      if (!section.difficult) continue;
+      console.log(
+        `  ${chalk.dim(`${section.line}:`)} ${chalk.magenta(section.title)} is hard to read (grade ${section.grade_level})`,
+      );
+    }
+    for (const link of doc.brokenLinks) {
+      const target = link.target || `[${link.reference}]`;
+      console.log(`  ${chalk.dim(`${link.line}:`)} ${chalk.red(target)} ${link.reason}`);
+    }
+  }
+
+  console.log(
+    `\nOverall score: ${colorScore(report.score)} across ${report.documents.length} document(s)`,
+  );
+}
+
+function printMarkdown(report: HealthReport): void {
+  const lines = [
+    '# Documentation Health',
+    '',
+    `Overall score: **${report.score}** across ${report.documents.length} document(s), generated ${report.generatedAt}`,
+    '',
+    `| ${COLUMNS.map(title => title.charAt(0) + title.slice(1).toLowerCase()).join(' | ')} |`,
+    `| ${COLUMNS.map((_, i) => (i === 0 ? '---' : '---:')).join(' | ')} |`,
+    ...report.documents.map(doc => `| ${documentRow(doc).join(' | ')} |`),
+  ];
+
+  const stale = report.documents.flatMap(doc => {
+    const description = describeStaleness(doc);
+    return description ? [`- \`${doc.path}\` ${description}`] : [];
+  });
+  if (stale.length > 0) {
+    lines.push('', '## Stale Documents', '', ...stale);
+  }
+
+  const unfilled = report.documents.filter(doc => doc.placeholders.length > 0);
+  if (unfilled.length > 0) {
+    lines.push('', '## Unfilled Sections', '');
+    for (const doc of unfilled) {
+      for (const section of doc.placeholders) {
+        const state = section.empty ? 'not filled in' : 'still has placeholders';
+        lines.push(`- \`${doc.path}:${section.line}\` ${section.title}: ${state}`);
+        section.placeholders.forEach(text => lines.push(`  - ${text}`));
+      }
+    }
+  }
+
+  const difficult = report.documents.flatMap(doc =>
+    (doc.metrics.readability_sections ?? [])
+      .filter(section => section.difficult)
+      .map(
+        section =>
+          `- \`${doc.path}:${section.line}\` ${section.title}: grade ${section.grade_level}`,
+      ),
+  );
+  if (difficult.length > 0) {
+    lines.push('', '## Hard to Read', '', ...difficult);
+  }
+
+  const broken = report.documents.flatMap(doc =>
+    doc.brokenLinks.map(
+      link =>
+        `- \`${doc.path}:${link.line}\` ${link.target || `[${link.reference}]`}: ${link.reason}`,
+    ),
+  );
+  if (broken.length > 0) {
+    lines.push('', '## Broken Links', '', ...broken);
+  }
+
+  console.log(lines.join('\n'));
+}
+
+/**
+ * Prints a health report of every document in the docs directory.
+ */
+export async function handleHealthCommand(
+  config: ProjectConfig,
+  options: HealthOptions = {},
+): Promise<void> {
+  try {
+    const format = (options.format ?? 'table') as HealthFormat;
+    if (!FORMATS.includes(format)) {
+      throw new Error(`Unknown format "${options.format}", expected ${FORMATS.join(', ')}`);
+    }
+
+    const report = await buildHealthReport(config);
+    if (format === 'json') {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    if (report.documents.length === 0) {
+      console.log(chalk.yellow('No documents found.'));
+      return;
+    }
+
+    if (format === 'markdown') {
+      printMarkdown(report);
+    } else {
+      printTable(report);
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to report documentation health:', error.message);
+    }
+    throw error;
+  }
+}
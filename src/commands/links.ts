@@ -0,0 +1,71 @@
+/* eslint-disable no-console */
+import chalk from 'chalk';
+import path from 'path';
+import { glob } from 'glob';
+import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import { BrokenLink, analyzeLinks } from '../core/markdown-links';
+import * as fsPlan from '../core/file-plan';
+
+export interface LinksOptions {
+  json?: boolean;
+}
+
+/**
+ * Checks the links of every document in the docs directory and lists the broken ones per
+ * document. Sets a failing exit code when any link is broken.
+ */
+export async function handleLinksCommand(
+  config: ProjectConfig,
+  options: LinksOptions = {},
+): Promise<void> {
+  try {
+    const { docsDir } = resolvePaths(config);
+    const files = (await glob('*.md', { cwd: docsDir })).sort();
+
+    const results: Array<{ document: string; links: number; broken: BrokenLink[] }> = [];
+    for (const file of files) {
+      const filePath = path.join(docsDir, file);
+      const report = await analyzeLinks(filePath, await fsPlan.readFile(filePath));
+      results.push({ document: file, links: report.links.length, broken: report.broken });
+    }
+
+    const brokenCount = results.reduce((sum, result) => sum + result.broken.length, 0);
+    if (brokenCount > 0) process.exitCode = 1;
+
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+
+    if (files.length === 0) {
+      console.log(chalk.yellow(`No documents found in ${docsDir}.`));
+      return;
+    }
+
+    for (const { document, broken } of results) {
+      if (broken.length === 0) continue;
+      console.log(chalk.bold(document));
+      for (const link of broken) {
+        const target = link.target || `[${link.reference}]`;
+        console.log(
+          `  ${chalk.dim(`${link.line}:`)} ${chalk.red(target)} ${chalk.dim(link.reason)}`,
+        );
+      }
+    }
+
+    const linkCount = results.reduce((sum, result) => sum + result.links, 0);
+    console.log(
+      brokenCount > 0
+        ? chalk.red(
+            `\n${brokenCount} broken link(s) out of ${linkCount} in ${files.length} document(s)`,
+          )
+        : chalk.green(`All ${linkCount} link(s) in ${files.length} document(s) are valid`),
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to check links:', error.message);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+/* eslint-disable no-console */
+import { Command } from 'commander';
+import chalk from 'chalk';
+import path from 'path';
+import { getConfig } from '../core/config';
+import { resolvePaths } from '../core/paths';
+import { TemplatePackRegistry } from '../services/templatePacks';
+
+/**
+ * Creates and configures the pack command group
+ */
+export function createPackCommand(): Command {
+  const pack = new Command('pack');
+  pack.description('List and install template packs');
+
+  // List bundled and installed packs
+  pack
+    .command('list')
+    .description('List the template packs available to this project')
+    .action(async () => {
+      try {
+        const config = await getConfig();
+        const packs = await new TemplatePackRegistry(resolvePaths(config).templatesDir).list();
+        const width = Math.max(...packs.map(p => p.name.length));
+
+        packs.forEach(p => {
+          const marker = p.name === config.templatePack ? chalk.green('*') : ' ';
+          const source = p.source === 'project' ? chalk.dim(' (installed)') : '';
+          console.log(`${marker} ${chalk.cyan(p.name.padEnd(width))}  ${p.description}${source}`);
+        });
+      } catch (error) {
+        console.error(chalk.red('Failed to list template packs:'), error);
+        process.exit(1);
+      }
+    });
+
+  // Copy a pack from a local directory into the project
+  pack
+    .command('install')
+    .description('Install a template pack from a local directory')
+    .argument('<dir>', 'Directory containing a pack.json and templates')
+    .option('-f, --force', 'Replace an installed pack with the same name', false)
+    .action(async (dir, options) => {
+      try {
+        const config = await getConfig();
+        const registry = new TemplatePackRegistry(resolvePaths(config).templatesDir);
+        const installed = await registry.install(path.resolve(dir), { force: options.force });
+
+        console.log(
+          chalk.green('✓'),
+          `Installed template pack ${chalk.cyan(installed.name)} to ${path.relative(process.cwd(), installed.dir)}`,
+        );
+        console.log(
+          `Use it with ${chalk.cyan(`mementor config set templatePack ${installed.name}`)}`,
+        );
+      } catch (error) {
+        console.error(chalk.red('Failed to install template pack:'));
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+    });
+
+  return pack;
+}
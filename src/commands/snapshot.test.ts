@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ProjectConfig } from '../types';
+import { getDefaultConfig } from '../core/config';
+import { resolvePaths } from '../core/paths';
+import * as fsPlan from '../core/file-plan';
+import { SnapshotGenerator } from '../services/snapshotGenerator';
+import { SnapshotStore } from '../services/snapshotStore';
+import { handleSnapshotRestoreCommand } from './snapshot';
+
+let root: string;
+let config: ProjectConfig;
+let docsDir: string;
+let snapshotId: string;
+
+async function writeDoc(file: string, content: string): Promise<void> {
+  await fs.writeFile(path.join(docsDir, file), content);
+}
+
+async function readDoc(file: string): Promise<string> {
+  return fs.readFile(path.join(docsDir, file), 'utf-8');
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-restore-'));
+  config = { ...getDefaultConfig(root), docsDir: path.join(root, 'docs', 'context') };
+  docsDir = config.docsDir;
+  await fs.mkdir(docsDir, { recursive: true });
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+  await writeDoc('progress.md', '# Progress\n\n- Shipped\n');
+  await writeDoc('brief.md', '# Brief\n');
+  const { snapshotsDir } = resolvePaths(config);
+  const { snapshot } = await new SnapshotGenerator().createSnapshot(docsDir, snapshotsDir);
+  snapshotId = snapshot.id;
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  fsPlan.setDryRun(false);
+  fsPlan.takePlannedChanges();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('handleSnapshotRestoreCommand', () => {
+  it('writes back edited and deleted documents after snapshotting the current state', async () => {
+    await writeDoc('progress.md', '# Progress\n\n- Rewritten\n');
+    await fs.rm(path.join(docsDir, 'brief.md'));
+
+    expect(await handleSnapshotRestoreCommand(config, snapshotId, { force: true })).toBe(true);
+
+    expect(await readDoc('progress.md')).toBe('# Progress\n\n- Shipped\n');
+    expect(await readDoc('brief.md')).toBe('# Brief\n');
+    const safety = await new SnapshotStore(resolvePaths(config).snapshotsDir).query({
+      trigger: 'restore',
+    });
+    expect(safety).toHaveLength(1);
+    expect(safety[0].documents).toEqual(['progress.md']);
+  });
+
+  it('restores a single document with doc', async () => {
+    await writeDoc('progress.md', 'changed');
+    await writeDoc('brief.md', 'changed');
+
+    await handleSnapshotRestoreCommand(config, snapshotId, { doc: 'brief', force: true });
+
+    expect(await readDoc('brief.md')).toBe('# Brief\n');
+    expect(await readDoc('progress.md')).toBe('changed');
+  });
+
+  it('leaves matching documentation alone', async () => {
+    expect(await handleSnapshotRestoreCommand(config, snapshotId, { force: true })).toBe(true);
+
+    const entries = await new SnapshotStore(resolvePaths(config).snapshotsDir).readIndex();
+    expect(entries).toHaveLength(1);
+  });
+
+  it('only plans the restore during a dry run', async () => {
+    await writeDoc('progress.md', 'changed');
+    fsPlan.setDryRun(true);
+
+    await handleSnapshotRestoreCommand(config, snapshotId);
+
+    expect(await readDoc('progress.md')).toBe('changed');
+    expect(fsPlan.takePlannedChanges()).toContainEqual(
+      expect.objectContaining({ type: 'edit', path: path.join(docsDir, 'progress.md') }),
+    );
+  });
+
+  it('names the captured documents when doc is not in the snapshot', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      handleSnapshotRestoreCommand(config, snapshotId, { doc: 'missing.md', force: true }),
+    ).rejects.toThrow(
+      `Snapshot ${snapshotId} does not contain missing.md. Captured documents: brief.md, progress.md`,
+    );
+  });
+});
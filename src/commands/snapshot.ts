@@ -1,20 +1,37 @@
+/* eslint-disable no-console */
+import { Command } from 'commander';
+import chalk from 'chalk';
 import path from 'path';
 import { SnapshotGenerator } from '../services/snapshotGenerator';
-import { ProjectConfig } from '../types';
+import { SnapshotIndexEntry, SnapshotStore, utcDayRange } from '../services/snapshotStore';
+import { LegacySnapshotKind, findLegacySnapshots } from '../services/legacySnapshots';
+import { pruneSnapshots } from '../services/snapshotRetention';
+import { ProjectConfig, SnapshotDocument, SnapshotTrigger } from '../types';
+import { createUnifiedDiff } from '../core/diff';
+import { getConfig } from '../core/config';
+import { resolvePaths } from '../core/paths';
+import * as fsPlan from '../core/file-plan';
 
-export async function handleSnapshotCommand(_config: ProjectConfig): Promise<void> {
+export async function handleSnapshotCommand(
+  config: ProjectConfig,
+  options: { label?: string; note?: string } = {},
+): Promise<void> {
   try {
+    const { docsDir, snapshotsDir } = resolvePaths(config);
     const generator = new SnapshotGenerator();
 
-    // Get the active context file path
-    const docsDir = path.join(process.cwd(), 'docs/context');
-    const activeContextPath = path.join(docsDir, 'active_context.md');
-
-    // Create snapshots directory if it doesn't exist
-    const snapshotsDir = path.join(docsDir, 'snapshots');
-
-    // Generate the snapshot
-    await generator.createSnapshot(activeContextPath, snapshotsDir);
+    // Capture every document in the docs directory
+    const { snapshot } = await generator.createSnapshot(docsDir, snapshotsDir, {
+      ...options,
+      maxGradeLevel: config.health.maxGradeLevel,
+    });
+    console.warn(
+      `Captured ${snapshot.documents.length} document(s), ${snapshot.changes.length} change(s) since the previous snapshot`,
+    );
+    snapshot.changes.forEach(change => console.warn(`  - ${change.description}`));
+    if (snapshot.label) {
+      console.warn(`Labelled ${snapshot.label}`);
+    }
   } catch (error) {
     if (error instanceof Error) {
       console.error('Failed to create snapshot:', error.message);
@@ -24,3 +41,463 @@ export async function handleSnapshotCommand(_config: ProjectConfig): Promise<voi
     throw error;
   }
 }
+
+/**
+ * Sets, moves or removes the label and note of a stored snapshot.
+ */
+export async function handleSnapshotLabelCommand(
+  config: ProjectConfig,
+  reference: string,
+  label: string | undefined,
+  options: { note?: string; remove?: boolean; force?: boolean } = {},
+): Promise<void> {
+  try {
+    if (!label && !options.remove && options.note === undefined) {
+      throw new Error('Give a label, a --note, or --remove');
+    }
+
+    const { snapshotsDir } = resolvePaths(config);
+    const store = new SnapshotStore(snapshotsDir);
+    const file = await store.resolve(reference);
+    const updated = await store.annotate(file, {
+      label: options.remove ? null : label,
+      note: options.note,
+      force: options.force,
+    });
+
+    if (updated.label) {
+      console.log(
+        `${chalk.green('✓')} Snapshot ${updated.id} is labelled ${chalk.cyan(updated.label)}`,
+      );
+    } else {
+      console.log(`${chalk.green('✓')} Snapshot ${updated.id} has no label`);
+    }
+    if (updated.note) {
+      console.log(chalk.dim(`  ${updated.note}`));
+    }
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to label snapshot:', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Converts snapshots written by earlier versions into the current format.
+ * @returns The number of snapshots that could not be converted
+ */
+export async function handleSnapshotMigrateCommand(
+  config: ProjectConfig,
+  options: { keep?: boolean } = {},
+): Promise<number> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const store = new SnapshotStore(snapshotsDir);
+    const { snapshots, failed } = await findLegacySnapshots(snapshotsDir);
+    const counts: Partial<Record<LegacySnapshotKind, number>> = {};
+
+    for (const legacy of snapshots) {
+      const target = await store.save(legacy.snapshot);
+      if (!options.keep && target !== legacy.file) {
+        await fsPlan.remove(legacy.file);
+      }
+      counts[legacy.kind] = (counts[legacy.kind] ?? 0) + 1;
+      console.log(
+        `${chalk.green('✓')} ${path.relative(snapshotsDir, legacy.file)} -> ${path.relative(snapshotsDir, target)}`,
+      );
+    }
+
+    failed.forEach(({ file, reason }) =>
+      console.error(`${chalk.red('✗')} ${path.relative(snapshotsDir, file)}: ${reason}`),
+    );
+
+    if (snapshots.length === 0 && failed.length === 0) {
+      console.log('All snapshots are already in the current format.');
+      return 0;
+    }
+
+    const summary = Object.entries(counts)
+      .map(([kind, count]) => `${count} ${kind}`)
+      .join(', ');
+    console.log(`\nMigrated ${snapshots.length} snapshot(s)${summary ? ` (${summary})` : ''}.`);
+
+    if (failed.length > 0) {
+      console.error(`${failed.length} snapshot(s) could not be migrated`);
+    }
+    return failed.length;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to migrate snapshots:', error.message);
+    }
+    throw error;
+  }
+}
+
+export interface SnapshotListOptions {
+  since?: string;
+  until?: string;
+  label?: string;
+  trigger?: SnapshotTrigger;
+  doc?: string;
+  json?: boolean;
+  rebuild?: boolean;
+}
+
+function documentName(name: string): string {
+  return name.endsWith('.md') ? name : `${name}.md`;
+}
+
+function printSnapshotTable(entries: SnapshotIndexEntry[]): void {
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.trigger,
+    String(entry.documents.length),
+    String(entry.metrics?.word_count ?? '-'),
+    String(entry.metrics?.todo_count ?? '-'),
+    entry.label ?? '',
+  ]);
+  const header = ['ID', 'TRIGGER', 'DOCS', 'WORDS', 'TODOS', 'LABEL'];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...rows.map(row => row[i].length)),
+  );
+  const format = (row: string[]): string =>
+    row
+      .map((cell, i) => cell.padEnd(widths[i]))
+      .join('  ')
+      .trimEnd();
+
+  console.log(chalk.dim(format(header)));
+  rows.forEach(row => console.log(format(row)));
+}
+
+/**
+ * Lists stored snapshots from the snapshot index, optionally filtered.
+ */
+export async function handleSnapshotListCommand(
+  config: ProjectConfig,
+  options: SnapshotListOptions = {},
+): Promise<void> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const store = new SnapshotStore(snapshotsDir);
+    if (options.rebuild) {
+      await store.rebuildIndex();
+    }
+
+    const entries = await store.query({
+      since: options.since ? utcDayRange(options.since).start : undefined,
+      until: options.until ? utcDayRange(options.until).end : undefined,
+      label: options.label,
+      trigger: options.trigger,
+      document: options.doc ? documentName(options.doc) : undefined,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+
+    if (entries.length === 0) {
+      console.log(chalk.yellow('No snapshots found.'));
+      return;
+    }
+
+    printSnapshotTable(entries);
+    console.log(chalk.dim(`\n${entries.length} snapshot(s)`));
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to list snapshots:', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes the snapshots that the configured retention policy does not keep.
+ */
+export async function handleSnapshotPruneCommand(
+  config: ProjectConfig,
+  options: { verbose?: boolean } = {},
+): Promise<void> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const decisions = await pruneSnapshots(snapshotsDir, config.retention);
+    const pruned = decisions.filter(decision => !decision.keep);
+    const verb = fsPlan.isDryRun() ? 'Would remove' : 'Removed';
+
+    for (const { entry, keep, reason } of decisions) {
+      if (!keep) {
+        console.log(`${chalk.red('-')} ${entry.id}  ${chalk.dim(reason)}`);
+      } else if (options.verbose) {
+        console.log(`${chalk.green('=')} ${entry.id}  ${chalk.dim(reason)}`);
+      }
+    }
+
+    const { keepAllDays, keepDailyWeeks } = config.retention;
+    console.log(
+      `${verb} ${pruned.length} snapshot(s), keeping ${decisions.length - pruned.length} ` +
+        `(all from the last ${keepAllDays} day(s), one per day for ${keepDailyWeeks} week(s), ` +
+        'one per week before that, and every labelled snapshot).',
+    );
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to prune snapshots:', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Removes stored document content that no snapshot refers to anymore.
+ */
+export async function handleSnapshotGcCommand(config: ProjectConfig): Promise<void> {
+  try {
+    const { snapshotsDir } = resolvePaths(config);
+    const { removed, kept } = await new SnapshotStore(snapshotsDir).gc();
+
+    removed.forEach(hash => console.log(`${chalk.red('-')} ${hash}`));
+    console.log(`Removed ${removed.length} unreferenced object(s), ${kept} still in use.`);
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to collect unreferenced objects:', error.message);
+    }
+    throw error;
+  }
+}
+
+function printDiff(diff: string): void {
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-') && !line.startsWith('---')) {
+      console.log(chalk.red(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const readline = await import('readline');
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  const answer = await new Promise<string>(resolve => {
+    rl.question(chalk.yellow(question), resolve);
+  });
+  rl.close();
+
+  return answer.toLowerCase() === 'y';
+}
+
+/**
+ * Writes the documents of a stored snapshot back into the docs directory. A snapshot of the
+ * current state is taken first so the restore can itself be undone.
+ * @returns False when the restore was cancelled
+ */
+export async function handleSnapshotRestoreCommand(
+  config: ProjectConfig,
+  reference: string,
+  options: { doc?: string; force?: boolean } = {},
+): Promise<boolean> {
+  try {
+    const { docsDir, snapshotsDir } = resolvePaths(config);
+    const store = new SnapshotStore(snapshotsDir);
+    const snapshot = await store.load(await store.resolve(reference));
+
+    let documents: SnapshotDocument[] = snapshot.documents;
+    if (options.doc) {
+      const name = documentName(options.doc);
+      documents = snapshot.documents.filter(doc => doc.path === name);
+      if (documents.length === 0) {
+        throw new Error(
+          `Snapshot ${snapshot.id} does not contain ${name}. Captured documents: ${snapshot.documents.map(doc => doc.path).join(', ')}`,
+        );
+      }
+    }
+
+    // Show what would change before anything is written
+    const changed: SnapshotDocument[] = [];
+    for (const doc of documents) {
+      const current = await fsPlan.readFile(path.join(docsDir, doc.path)).catch(() => null);
+      if (current === doc.content) continue;
+
+      changed.push(doc);
+      if (current === null) {
+        console.log(chalk.green(`+ ${doc.path} (recreated)`));
+      } else {
+        printDiff(
+          createUnifiedDiff(current, doc.content, {
+            fromFile: `current/${doc.path}`,
+            toFile: `${snapshot.id}/${doc.path}`,
+          }),
+        );
+      }
+    }
+
+    if (changed.length === 0) {
+      console.log(chalk.dim(`The documentation already matches snapshot ${snapshot.id}.`));
+      return true;
+    }
+
+    if (!options.force && !fsPlan.isDryRun()) {
+      const proceed = await confirm(
+        `\nRestore ${changed.length} document(s) from snapshot ${snapshot.id}? [y/N] `,
+      );
+      if (!proceed) {
+        console.log(chalk.dim('\nRestore cancelled.'));
+        return false;
+      }
+    }
+
+    // Keep the current state so the restore can be undone
+    const generator = new SnapshotGenerator();
+    const { snapshot: safety } = await generator.createSnapshot(docsDir, snapshotsDir, {
+      trigger: 'restore',
+      maxGradeLevel: config.health.maxGradeLevel,
+    });
+
+    await fsPlan.mkdir(docsDir);
+    for (const doc of changed) {
+      await fsPlan.writeFile(path.join(docsDir, doc.path), doc.content);
+      console.log(`${chalk.green('✓')} Restored ${doc.path}`);
+    }
+
+    console.log(
+      `\nRestored ${changed.length} document(s) from snapshot ${snapshot.id}. To undo, run: mementor snapshot restore ${safety.id}`,
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error('Failed to restore snapshot:', error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates and configures the snapshot command group
+ */
+export function createSnapshotCommand(): Command {
+  const snapshot = new Command('snapshot');
+  snapshot
+    .description('Create a snapshot of the current documentation state')
+    .option('-l, --label <label>', 'Name to refer to the snapshot by, e.g. "pre-release 2.0"')
+    .option('-n, --note <note>', 'Describe what the snapshot captures')
+    .action(async options => {
+      try {
+        const config = await getConfig();
+        await handleSnapshotCommand(config, options);
+        console.warn('📸 Snapshot created successfully!');
+      } catch (error) {
+        console.error('Failed to create snapshot:', error);
+        process.exit(1);
+      }
+    });
+
+  // Label existing snapshots
+  snapshot
+    .command('label <snapshot> [label]')
+    .description('Set the label or note of a snapshot, given by id or label')
+    .option('-n, --note <note>', 'Describe what the snapshot captures')
+    .option('-r, --remove', 'Remove the label', false)
+    .option('-f, --force', 'Move the label when another snapshot has it', false)
+    .action(async (reference, label, _options, command: Command) => {
+      try {
+        const config = await getConfig();
+        // --note is also an option of the parent command, which parses it first
+        await handleSnapshotLabelCommand(config, reference, label, command.optsWithGlobals());
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  // List stored snapshots
+  snapshot
+    .command('list')
+    .description('List stored snapshots')
+    .option('--since <date>', 'Only snapshots taken on or after this day (YYYY-MM-DD, UTC)')
+    .option('--until <date>', 'Only snapshots taken on or before this day (YYYY-MM-DD, UTC)')
+    .option('-l, --label <label>', 'Only snapshots with this label')
+    .option('-t, --trigger <trigger>', 'Only snapshots taken by manual, init, watch, ai-session, …')
+    .option('--doc <name>', 'Only snapshots that captured this document')
+    .option('--json', 'Output the snapshots as JSON', false)
+    .option('--rebuild', 'Rebuild the snapshot index from the stored snapshots first', false)
+    .action(async (_options, command: Command) => {
+      try {
+        const config = await getConfig();
+        // --label is also an option of the parent command, which parses it first
+        await handleSnapshotListCommand(config, command.optsWithGlobals());
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  // Convert snapshots from earlier versions
+  snapshot
+    .command('migrate')
+    .description('Convert snapshots written by earlier versions to the current format')
+    .option('-k, --keep', 'Keep the original files next to the converted snapshots', false)
+    .action(async options => {
+      try {
+        const config = await getConfig();
+        const failed = await handleSnapshotMigrateCommand(config, options);
+        if (failed > 0) {
+          process.exitCode = 1;
+        }
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  // Roll the documentation back to a stored snapshot
+  snapshot
+    .command('restore <snapshot>')
+    .description(
+      'Restore documents from a snapshot, given by id or label, taking a snapshot of the current state first',
+    )
+    .option('--doc <name>', 'Only restore this document, e.g. active_context.md')
+    .option('-f, --force', 'Skip confirmation prompt', false)
+    .action(async (reference, options) => {
+      try {
+        const config = await getConfig();
+        await handleSnapshotRestoreCommand(config, reference, options);
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  // Apply the retention policy
+  snapshot
+    .command('prune')
+    .description('Delete snapshots outside the retention policy, labelled snapshots are kept')
+    .option('-v, --verbose', 'Also list the snapshots that are kept and why', false)
+    .action(async options => {
+      try {
+        const config = await getConfig();
+        await handleSnapshotPruneCommand(config, options);
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  // Remove content no snapshot refers to
+  snapshot
+    .command('gc')
+    .description('Remove stored document content that no snapshot refers to')
+    .action(async () => {
+      try {
+        const config = await getConfig();
+        await handleSnapshotGcCommand(config);
+      } catch {
+        process.exit(1);
+      }
+    });
+
+  return snapshot;
+}
@@ -1,8 +1,32 @@
 import path from 'path';
 import fs from 'fs/promises';
-import { v4 as uuidv4 } from 'uuid';
+import { randomUUID } from 'crypto';
 import { simpleGit } from 'simple-git';
 import { AISessionContext, AISessionConfig, Decision, CodeChange, TaskProgress } from './types';
+import { SnapshotGenerator } from '../../services/snapshotGenerator';
+import { pruneSnapshots } from '../../services/snapshotRetention';
+
+/**
+ * Name of the file in the context directory that holds the id of the active session.
+ */
+export const CURRENT_SESSION_FILE = '.current-session';
+
+/**
+ * Reads the id of the active AI session. The watcher uses it to tag its interval snapshots,
+ * since the `ai` commands exit right after they run.
+ * @param contextDirectory - Directory holding the session reference
+ * @returns The session id, or null when no session is active
+ */
+export async function readCurrentSessionId(contextDirectory: string): Promise<string | null> {
+  try {
+    const sessionId = (
+      await fs.readFile(path.join(contextDirectory, CURRENT_SESSION_FILE), 'utf-8')
+    ).trim();
+    return sessionId || null;
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Manages AI session context tracking and documentation.
@@ -419,7 +443,7 @@ Session ID: ${this.currentSession.sessionId}`,
 
   constructor(config: AISessionConfig) {
     this.config = config;
-    this.sessionFile = path.join(config.contextDirectory, '.current-session');
+    this.sessionFile = path.join(config.contextDirectory, CURRENT_SESSION_FILE);
     this.currentSession = this.initializeSession();
 
     // Initialize git and try to restore existing session
@@ -432,7 +456,7 @@ Session ID: ${this.currentSession.sessionId}`,
   private initializeSession(): AISessionContext {
     const timestamp = new Date().toISOString();
     return {
-      sessionId: uuidv4(),
+      sessionId: randomUUID(),
       timestamp: {
         start: timestamp,
         lastActive: timestamp,
@@ -454,7 +478,7 @@ Session ID: ${this.currentSession.sessionId}`,
         },
       },
       aiContext: {
-        preferences: {
+        preferences: this.config.preferences ?? {
           codeStyle: {
             formatting: [],
             conventions: [],
@@ -633,19 +657,28 @@ Session ID: ${this.currentSession.sessionId}`,
    * Creates a new snapshot of the current context
    */
   private async createSnapshot(_trigger: 'decision' | 'code-change' | 'manual'): Promise<void> {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '');
-    const snapshotPath = path.join(
+    // Capture the active context together with the rest of the documentation
+    await this.updateActiveContext();
+    await new SnapshotGenerator().createSnapshot(
       this.config.contextDirectory,
-      'snapshots',
-      new Date().getFullYear().toString(),
-      (new Date().getMonth() + 1).toString().padStart(2, '0'),
-      new Date().getDate().toString().padStart(2, '0'),
-      `snapshot_${timestamp}.md`,
+      this.snapshotsDirectory(),
+      {
+        trigger: 'ai-session',
+        sessionId: this.currentSession?.sessionId,
+        maxGradeLevel: this.config.maxGradeLevel,
+      },
     );
+    await this.autoPrune();
+  }
 
-    await fs.mkdir(path.dirname(snapshotPath), { recursive: true });
-    const content = await this.formatContextMarkdown();
-    await fs.writeFile(snapshotPath, content, 'utf-8');
+  private snapshotsDirectory(): string {
+    return this.config.snapshotsDirectory ?? path.join(this.config.contextDirectory, 'snapshots');
+  }
+
+  private async autoPrune(): Promise<void> {
+    if (this.config.retention?.autoPrune) {
+      await pruneSnapshots(this.snapshotsDirectory(), this.config.retention);
+    }
   }
 
   /**
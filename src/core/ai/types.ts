@@ -3,6 +3,8 @@
  * These types define the structure for tracking AI-assisted development sessions.
  */
 
+import { RetentionPolicy } from '../../types';
+
 /**
  * Represents the state and progress of a task within an AI session
  */
@@ -120,4 +122,8 @@ export interface AISessionConfig {
   gitIntegration: boolean;
   contextDirectory: string;
   sessionsDirectory: string;
+  snapshotsDirectory?: string;
+  retention?: RetentionPolicy;
+  maxGradeLevel?: number;
+  preferences?: AIPreferences;
 }
@@ -0,0 +1,84 @@
+import { CONFIG_VERSION, detectConfigVersion, migrateConfig } from './config-migrations';
+
+describe('detectConfigVersion', () => {
+  it('treats files without configVersion as version 1', () => {
+    expect(detectConfigVersion({ docsDir: 'docs' })).toBe(1);
+    expect(detectConfigVersion({ configVersion: 2 })).toBe(2);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('moves gitIntegration into git.enabled and points docsDir at the context directory', () => {
+    const { config, applied } = migrateConfig({
+      name: 'legacy',
+      docsDir: 'docs',
+      gitIntegration: false,
+    });
+
+    expect(config).toEqual({
+      name: 'legacy',
+      docsDir: 'docs/context',
+      git: { enabled: false },
+      configVersion: CONFIG_VERSION,
+    });
+    expect(applied.map(migration => [migration.from, migration.to])).toEqual([[1, 2]]);
+  });
+
+  it('treats a file without git settings as the legacy layout', () => {
+    expect(migrateConfig({ docsDir: 'documentation' }).config).toEqual({
+      docsDir: 'documentation/context',
+      configVersion: 2,
+    });
+  });
+
+  it('keeps docsDir of an unversioned file that already uses the git block', () => {
+    expect(migrateConfig({ docsDir: 'docs/context', git: { enabled: true } }).config).toEqual({
+      docsDir: 'docs/context',
+      git: { enabled: true },
+      configVersion: 2,
+    });
+  });
+
+  it('merges gitIntegration into existing git settings', () => {
+    expect(
+      migrateConfig({ gitIntegration: true, git: { commitPrefix: 'chore' } }).config.git,
+    ).toEqual({ commitPrefix: 'chore', enabled: true });
+  });
+
+  it('moves ai.gitIntegration out of the ai block', () => {
+    const { config } = migrateConfig({
+      ai: { enabled: true, gitIntegration: false, trackingLevel: 'minimal' },
+    });
+
+    expect(config.ai).toEqual({ enabled: true, trackingLevel: 'minimal' });
+    expect(config.git).toEqual({ enabled: false });
+  });
+
+  it('prefers the top-level gitIntegration over the ai one', () => {
+    const { config } = migrateConfig({ gitIntegration: true, ai: { gitIntegration: false } });
+
+    expect(config.git).toEqual({ enabled: true });
+    expect(config.ai).toEqual({});
+  });
+
+  it('does not modify the input', () => {
+    const raw = { docsDir: 'docs', gitIntegration: true, ai: { gitIntegration: true } };
+    migrateConfig(raw);
+
+    expect(raw).toEqual({ docsDir: 'docs', gitIntegration: true, ai: { gitIntegration: true } });
+  });
+
+  it('leaves current configurations alone', () => {
+    const raw = { configVersion: CONFIG_VERSION, docsDir: 'docs' };
+    const { config, applied } = migrateConfig(raw);
+
+    expect(config).toBe(raw);
+    expect(applied).toEqual([]);
+  });
+
+  it('rejects configurations from a newer version', () => {
+    expect(() => migrateConfig({ configVersion: CONFIG_VERSION + 1 })).toThrow(
+      `Configuration version ${CONFIG_VERSION + 1} is newer than this version of Mementor supports`,
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import path from 'path';
+
+/**
+ * Raw, not yet validated contents of a configuration file.
+ */
+export type RawConfig = Record<string, unknown>;
+
+/**
+ * A single upgrade step between two configuration format versions.
+ * @interface ConfigMigration
+ * @property {number} from - Version the migration upgrades from
+ * @property {number} to - Version the migration produces
+ * @property {string} description - Short summary shown to the user when the migration runs
+ * @property {Function} migrate - Transforms a raw config of version `from` into version `to`
+ */
+export interface ConfigMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (raw: RawConfig) => RawConfig;
+}
+
+/**
+ * Current version of the configuration format.
+ */
+export const CONFIG_VERSION = 2;
+
+const migrations: ConfigMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'move gitIntegration into git.enabled and point docsDir at the context directory',
+    migrate: (raw): RawConfig => {
+      const { gitIntegration, ...rest } = raw;
+      const upgraded: RawConfig = { ...rest };
+
+      // The old loader treated docsDir as the parent of the context directory
+      const isLegacyLayout = gitIntegration !== undefined || raw.git === undefined;
+      if (isLegacyLayout && typeof raw.docsDir === 'string') {
+        upgraded.docsDir = path.posix.join(raw.docsDir, 'context');
+      }
+
+      const ai = isRecord(raw.ai) ? { ...raw.ai } : undefined;
+      const aiGitIntegration = ai?.gitIntegration;
+      if (ai) {
+        delete ai.gitIntegration;
+        upgraded.ai = ai;
+      }
+
+      const enabled = gitIntegration ?? aiGitIntegration;
+      if (enabled !== undefined) {
+        upgraded.git = { ...(isRecord(raw.git) ? raw.git : {}), enabled };
+      }
+
+      upgraded.configVersion = 2;
+      return upgraded;
+    },
+  },
+];
+
+/**
+ * Determines the format version of a raw config. Files written before
+ * versioning was introduced are treated as version 1.
+ * @param {RawConfig} raw - Raw configuration object
+ * @returns {number} The detected format version
+ */
+export function detectConfigVersion(raw: RawConfig): number {
+  return typeof raw.configVersion === 'number' ? raw.configVersion : 1;
+}
+
+/**
+ * Upgrades a raw config to the current format version.
+ * @param {RawConfig} raw - Raw configuration object
+ * @returns {{config: RawConfig, applied: ConfigMigration[]}} The upgraded config and the steps applied
+ * @throws {Error} When the config was written by a newer version of Mementor
+ */
+export function migrateConfig(raw: RawConfig): { config: RawConfig; applied: ConfigMigration[] } {
+  let version = detectConfigVersion(raw);
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `Configuration version ${version} is newer than this version of Mementor supports (${CONFIG_VERSION})`,
+    );
+  }
+
+  let config = raw;
+  const applied: ConfigMigration[] = [];
+
+  while (version < CONFIG_VERSION) {
+    const migration = migrations.find(m => m.from === version);
+    if (!migration) {
+      throw new Error(`No migration available for configuration version ${version}`);
+    }
+    config = migration.migrate(config);
+    applied.push(migration);
+    version = migration.to;
+  }
+
+  return { config, applied };
+}
+
+function isRecord(value: unknown): value is RawConfig {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
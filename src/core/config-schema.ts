@@ -0,0 +1,358 @@
+/**
+ * JSON schema for `mementor.json` and a small validator for it.
+ * The schema is deliberately limited to the keywords Mementor actually uses so
+ * it can be checked without pulling in a full JSON schema implementation.
+ */
+
+/**
+ * Subset of JSON schema supported by the config validator.
+ * @interface ConfigSchema
+ */
+export interface ConfigSchema {
+  type: 'object' | 'string' | 'boolean' | 'integer' | 'number' | 'array';
+  description?: string;
+  properties?: Record<string, ConfigSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: readonly string[];
+  minimum?: number;
+  items?: ConfigSchema;
+}
+
+/**
+ * A single problem found while validating a configuration object.
+ * @interface ConfigIssue
+ * @property {string} key - Dotted path of the offending key, e.g. `git.enabled`
+ * @property {string} message - Human readable description of the problem
+ */
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+function stringList(description: string): ConfigSchema {
+  return { type: 'array', items: { type: 'string' }, description };
+}
+
+export const configSchema: ConfigSchema = {
+  type: 'object',
+  description: 'Mementor project configuration',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', description: 'Optional reference to this schema' },
+    configVersion: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Version of the configuration format, used for migrations',
+    },
+    name: { type: 'string', description: 'The name of the project' },
+    version: { type: 'string', description: 'Project version' },
+    docsDir: { type: 'string', description: 'Directory where context documents are stored' },
+    templatesDir: {
+      type: 'string',
+      description: 'Directory containing project documentation templates',
+    },
+    templatePack: {
+      type: 'string',
+      description: 'Template pack used to generate documents, e.g. library or cli',
+    },
+    snapshotsDir: {
+      type: 'string',
+      description: 'Directory for snapshots, defaults to <docsDir>/snapshots',
+    },
+    sessionsDir: {
+      type: 'string',
+      description: 'Directory for AI session records, defaults to <docsDir>/ai_sessions',
+    },
+    retention: {
+      type: 'object',
+      additionalProperties: false,
+      description: 'Which snapshots `mementor snapshot prune` keeps, labelled ones are always kept',
+      properties: {
+        keepAllDays: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Keep every snapshot taken within this many days',
+        },
+        keepDailyWeeks: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Then keep one snapshot per day for this many weeks, and one per week after',
+        },
+        autoPrune: {
+          type: 'boolean',
+          description: 'Whether to prune after every automatic snapshot',
+        },
+      },
+    },
+    health: {
+      type: 'object',
+      additionalProperties: false,
+      description: 'Thresholds documentation health is checked against by `mementor check`',
+      properties: {
+        maxGradeLevel: {
+          type: 'number',
+          minimum: 0,
+          description: 'Flesch-Kincaid grade level above which a section is flagged as difficult',
+        },
+        minCompletion: {
+          type: 'number',
+          minimum: 0,
+          description: 'Lowest share of completed tasks per document in percent, 0 to disable',
+        },
+        maxSnapshotAgeDays: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Days the latest snapshot may be old, 0 to disable',
+        },
+        allowBrokenLinks: { type: 'boolean', description: 'Whether broken links pass the check' },
+        allowUnfilledSections: {
+          type: 'boolean',
+          description: 'Whether sections still holding template placeholders pass the check',
+        },
+        sourceDirs: stringList(
+          'Directories whose changes require an update of active_context.md, empty to disable',
+        ),
+        covers: {
+          type: 'array',
+          description: 'Source paths documents describe, in addition to their covers front matter',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['document', 'paths'],
+            properties: {
+              document: { type: 'string', description: 'Document name, e.g. structure.md' },
+              paths: stringList('Files, directories or git pathspecs relative to the project root'),
+            },
+          },
+        },
+      },
+    },
+    git: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean', description: 'Whether git integration is enabled' },
+        autoCommit: {
+          type: 'boolean',
+          description: 'Whether to automatically commit documentation changes',
+        },
+        commitPrefix: { type: 'string', description: 'Prefix for git commit messages' },
+      },
+    },
+    features: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        autoSnapshot: {
+          type: 'boolean',
+          description: 'Whether to automatically create snapshots',
+        },
+        snapshotInterval: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Interval between the watcher snapshots in milliseconds, 0 to disable',
+        },
+        liveUpdate: {
+          type: 'boolean',
+          description: 'Whether to update documentation in real-time',
+        },
+        gitHooks: { type: 'boolean', description: 'Whether to use git hooks' },
+      },
+    },
+    ai: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        enabled: { type: 'boolean', description: 'Whether AI session tracking is enabled' },
+        trackingLevel: {
+          type: 'string',
+          enum: ['minimal', 'standard', 'detailed'],
+          description: 'How much detail AI sessions record',
+        },
+        autoSnapshot: {
+          type: 'boolean',
+          description: 'Whether AI sessions snapshot on decisions and code changes',
+        },
+        snapshotInterval: {
+          type: 'integer',
+          minimum: 0,
+          description: 'Interval between automatic session snapshots in milliseconds',
+        },
+        preferences: {
+          type: 'object',
+          additionalProperties: false,
+          description: 'Preferences given to every new AI session',
+          properties: {
+            codeStyle: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                formatting: stringList('Formatting rules'),
+                conventions: stringList('Coding conventions'),
+                documentation: stringList('Documentation rules'),
+              },
+            },
+            projectRules: stringList('Rules the AI should follow in this project'),
+            constraints: stringList('Constraints the AI should respect'),
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Returns the schema node for a dotted key, or undefined when the key is not part of the schema.
+ * @param {string} key - Dotted key such as `git.commitPrefix`
+ * @param {ConfigSchema} [schema] - Schema to look the key up in
+ * @returns {ConfigSchema | undefined} The matching schema node
+ */
+export function getSchemaForKey(
+  key: string,
+  schema: ConfigSchema = configSchema,
+): ConfigSchema | undefined {
+  let node: ConfigSchema | undefined = schema;
+  for (const part of key.split('.')) {
+    node = node?.properties?.[part];
+    if (!node) return undefined;
+  }
+  return node;
+}
+
+/**
+ * Validates a raw configuration object against the schema.
+ * @param {unknown} value - Parsed contents of a configuration file
+ * @param {ConfigSchema} [schema] - Schema to validate against
+ * @returns {ConfigIssue[]} Every problem found; an empty array means the value is valid
+ */
+export function validateConfig(value: unknown, schema: ConfigSchema = configSchema): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateNode(value, schema, '', issues);
+  return issues;
+}
+
+function validateNode(
+  value: unknown,
+  schema: ConfigSchema,
+  key: string,
+  issues: ConfigIssue[],
+): void {
+  const label = key || '(root)';
+
+  if (!matchesType(value, schema.type)) {
+    issues.push({
+      key: label,
+      message: `expected ${article(schema.type)} but got ${describe(value)}`,
+    });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issues.push({
+      key: label,
+      message: `must be one of ${schema.enum.map(v => `"${v}"`).join(', ')} but got ${describe(value)}`,
+    });
+  }
+
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    issues.push({ key: label, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) =>
+      validateNode(item, schema.items!, `${key}[${index}]`, issues),
+    );
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const required of schema.required || []) {
+      if (record[required] === undefined) {
+        issues.push({ key: joinKey(key, required), message: 'is required' });
+      }
+    }
+
+    for (const [childKey, childValue] of Object.entries(record)) {
+      const childSchema = properties[childKey];
+      if (childSchema) {
+        validateNode(childValue, childSchema, joinKey(key, childKey), issues);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestKey(childKey, Object.keys(properties));
+        issues.push({
+          key: joinKey(key, childKey),
+          message: suggestion
+            ? `is not a known setting (did you mean "${joinKey(key, suggestion)}"?)`
+            : 'is not a known setting',
+        });
+      }
+    }
+  }
+}
+
+function matchesType(value: unknown, type: ConfigSchema['type']): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function joinKey(parent: string, child: string): string {
+  return parent ? `${parent}.${child}` : child;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Finds the closest known key to a misspelled one using edit distance.
+ */
+function suggestKey(key: string, candidates: string[]): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance <= 3 && (!best || distance < best.distance)) {
+      best = { candidate, distance };
+    }
+  }
+
+  return best?.candidate;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+
+  return previous[b.length];
+}
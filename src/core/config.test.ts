@@ -0,0 +1,126 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  ConfigValidationError,
+  migrateConfigFile,
+  readConfigFile,
+  readEnvironmentConfig,
+  setCliOverrides,
+} from './config';
+
+let dir: string;
+let warn: jest.SpyInstance;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-config-'));
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function write(values: unknown): Promise<string> {
+  const file = path.join(dir, 'config.json');
+  await fs.writeFile(file, JSON.stringify(values), 'utf-8');
+  return file;
+}
+
+describe('readConfigFile', () => {
+  it('returns null when the file does not exist', async () => {
+    expect(await readConfigFile(path.join(dir, 'missing.json'))).toBeNull();
+  });
+
+  it('migrates legacy files in memory without rewriting them', async () => {
+    const file = await write({ docsDir: 'docs', gitIntegration: false });
+
+    expect(await readConfigFile(file)).toEqual({
+      docsDir: 'docs/context',
+      git: { enabled: false },
+      configVersion: 2,
+    });
+    expect(JSON.parse(await fs.readFile(file, 'utf-8'))).toEqual({
+      docsDir: 'docs',
+      gitIntegration: false,
+    });
+  });
+
+  it('warns about a legacy file once per process', async () => {
+    const file = await write({ docsDir: 'docs' });
+    await readConfigFile(file);
+    await readConfigFile(file);
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('run `mementor config migrate`');
+  });
+
+  it('reads unversioned files as current when they cannot be legacy', async () => {
+    const file = await write({ docsDir: 'documentation' });
+
+    expect(await readConfigFile(file, { legacy: false })).toEqual({ docsDir: 'documentation' });
+  });
+
+  it('rejects invalid JSON with the offending file', async () => {
+    const file = path.join(dir, 'config.json');
+    await fs.writeFile(file, '{ "docsDir": ', 'utf-8');
+
+    await expect(readConfigFile(file)).rejects.toThrow(`Invalid configuration in ${file}`);
+  });
+});
+
+describe('migrateConfigFile', () => {
+  it('writes the upgraded configuration', async () => {
+    const file = await write({ docsDir: 'docs', gitIntegration: true });
+
+    expect((await migrateConfigFile(file)).map(migration => migration.to)).toEqual([2]);
+    expect(JSON.parse(await fs.readFile(file, 'utf-8'))).toEqual({
+      docsDir: 'docs/context',
+      git: { enabled: true },
+      configVersion: 2,
+    });
+  });
+
+  it('leaves current and missing files alone', async () => {
+    const file = await write({ configVersion: 2, docsDir: 'docs' });
+    const before = await fs.readFile(file, 'utf-8');
+
+    expect(await migrateConfigFile(file)).toEqual([]);
+    expect(await fs.readFile(file, 'utf-8')).toBe(before);
+    expect(await migrateConfigFile(path.join(dir, 'missing.json'))).toEqual([]);
+  });
+});
+
+describe('readEnvironmentConfig', () => {
+  it('converts variables to the types of their settings', () => {
+    expect(
+      readEnvironmentConfig({ MEMENTOR_DOCS_DIR: 'notes', MEMENTOR_AI_SNAPSHOT_INTERVAL: '60000' }),
+    ).toEqual({ docsDir: 'notes', ai: { snapshotInterval: 60000 } });
+  });
+
+  it('names the variable whose value does not match the schema', () => {
+    const read = (): unknown =>
+      readEnvironmentConfig({
+        MEMENTOR_AI_TRACKING_LEVEL: 'full',
+        MEMENTOR_FEATURES_SNAPSHOT_INTERVAL: '-5',
+      });
+
+    expect(read).toThrow(ConfigValidationError);
+    expect(read).toThrow('"MEMENTOR_AI_TRACKING_LEVEL" must be one of');
+    expect(read).toThrow('"MEMENTOR_FEATURES_SNAPSHOT_INTERVAL" must be at least 0');
+  });
+});
+
+describe('setCliOverrides', () => {
+  afterEach(() => setCliOverrides([]));
+
+  it('names the --set key whose value does not match the schema', () => {
+    expect(() => setCliOverrides(['ai.trackingLevel=full'])).toThrow(
+      '"--set ai.trackingLevel" must be one of',
+    );
+    expect(() => setCliOverrides(['ai.snapshotInterval=1.5'])).toThrow(
+      '"--set ai.snapshotInterval" expected an integer but got number 1.5',
+    );
+  });
+});
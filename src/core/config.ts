@@ -1,28 +1,587 @@
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
+import { ProjectConfig } from '../types';
+import {
+  ConfigIssue,
+  ConfigSchema,
+  configSchema,
+  getSchemaForKey,
+  validateConfig,
+} from './config-schema';
+import {
+  CONFIG_VERSION,
+  ConfigMigration,
+  RawConfig,
+  detectConfigVersion,
+  migrateConfig,
+} from './config-migrations';
+import * as fsPlan from './file-plan';
 
-export interface MementorConfig {
-  docsDir: string;
-  templatesDir: string;
-  gitIntegration: boolean;
+export type { RawConfig } from './config-migrations';
+
+/**
+ * Name of the project configuration file.
+ */
+export const CONFIG_FILENAME = 'mementor.json';
+
+/**
+ * Prefix of environment variables that override configuration values.
+ */
+export const ENV_PREFIX = 'MEMENTOR_';
+
+/**
+ * Overrides passed on the command line with `--set key=value`.
+ */
+let cliOverrides: RawConfig = {};
+
+/**
+ * Thrown when a configuration file cannot be parsed or does not match the schema.
+ * @class ConfigValidationError
+ * @property {string} file - Path of the offending configuration file
+ * @property {ConfigIssue[]} issues - Every problem found in the file
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly issues: ConfigIssue[],
+  ) {
+    super(
+      [
+        `Invalid configuration in ${file}:`,
+        ...issues.map(issue => `  - "${issue.key}" ${issue.message}`),
+      ].join('\n'),
+    );
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Builds the built-in default configuration for a project.
+ * @param {string} [cwd] - Project root directory
+ * @returns {ProjectConfig} Default configuration
+ */
+export function getDefaultConfig(cwd: string = process.cwd()): ProjectConfig {
+  return {
+    configVersion: CONFIG_VERSION,
+    name: path.basename(cwd),
+    version: '1.0.0',
+    docsDir: 'docs/context',
+    templatesDir: 'docs/templates',
+    templatePack: 'default',
+    retention: {
+      keepAllDays: 7,
+      keepDailyWeeks: 4,
+      autoPrune: false,
+    },
+    health: {
+      maxGradeLevel: 12,
+      minCompletion: 0,
+      maxSnapshotAgeDays: 0,
+      allowBrokenLinks: false,
+      allowUnfilledSections: false,
+      sourceDirs: ['src'],
+      covers: [],
+    },
+    git: {
+      enabled: true,
+      autoCommit: true,
+      commitPrefix: 'docs',
+    },
+    features: {
+      autoSnapshot: true,
+      snapshotInterval: 300000, // 5 minutes
+      liveUpdate: true,
+      gitHooks: true,
+    },
+    ai: {
+      enabled: true,
+      trackingLevel: 'standard',
+      autoSnapshot: true,
+      snapshotInterval: 300000, // 5 minutes
+      preferences: {
+        codeStyle: {
+          formatting: [],
+          conventions: [],
+          documentation: [],
+        },
+        projectRules: [],
+        constraints: [],
+      },
+    },
+  };
+}
+
+/**
+ * Returns the path of the project configuration file.
+ * @param {string} [cwd] - Project root directory
+ * @returns {string} Absolute path to `mementor.json`
+ */
+export function getConfigPath(cwd: string = process.cwd()): string {
+  return path.join(cwd, CONFIG_FILENAME);
+}
+
+/**
+ * Returns the path of the per-user configuration file shared by every project.
+ * Honors `XDG_CONFIG_HOME` and falls back to `~/.config`.
+ * @returns {string} Absolute path to the user configuration file
+ */
+export function getUserConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'mementor', 'config.json');
+}
+
+/**
+ * Returns the environment variable that overrides a dotted key,
+ * e.g. `git.commitPrefix` becomes `MEMENTOR_GIT_COMMIT_PREFIX`.
+ * @param {string} key - Dotted configuration key
+ * @returns {string} Environment variable name
+ */
+export function getEnvironmentVariableName(key: string): string {
+  return (
+    ENV_PREFIX +
+    key
+      .split('.')
+      .map(part => part.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase())
+      .join('_')
+  );
+}
+
+/**
+ * Lists the dotted keys of every leaf setting in the schema.
+ */
+function listSchemaKeys(schema: ConfigSchema = configSchema, prefix: string = ''): string[] {
+  return Object.entries(schema.properties || {}).flatMap(([key, child]) => {
+    if (key.startsWith('$')) return [];
+    const dotted = prefix ? `${prefix}.${key}` : key;
+    return child.type === 'object' ? listSchemaKeys(child, dotted) : [dotted];
+  });
+}
+
+/**
+ * Collects configuration values from `MEMENTOR_*` environment variables.
+ * @param {NodeJS.ProcessEnv} [env] - Environment to read from
+ * @returns {RawConfig} Values set through the environment
+ * @throws {ConfigValidationError} When a variable cannot be converted to its setting's type
+ *   or its value does not match the schema
+ */
+export function readEnvironmentConfig(env: NodeJS.ProcessEnv = process.env): RawConfig {
+  const values: RawConfig = {};
+  const issues: ConfigIssue[] = [];
+
+  for (const key of listSchemaKeys()) {
+    const name = getEnvironmentVariableName(key);
+    const input = env[name];
+    if (input === undefined) continue;
+
+    try {
+      setConfigValue(values, key, parseConfigValue(key, input));
+    } catch (error) {
+      issues.push({ key: name, message: (error as Error).message });
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError('environment variables', issues);
+  }
+
+  validateOverrides(values, 'environment variables', getEnvironmentVariableName);
+  return values;
+}
+
+/**
+ * Parses `key=value` pairs given on the command line and uses them as the
+ * highest-precedence configuration layer for the rest of the process.
+ * @param {string[]} pairs - Overrides in `key=value` form
+ * @throws {Error} When a pair is malformed or names an unknown key
+ * @throws {ConfigValidationError} When a value does not match the schema
+ */
+export function setCliOverrides(pairs: string[]): void {
+  const values: RawConfig = {};
+
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid override "${pair}", expected key=value`);
+    }
+    const key = pair.slice(0, separator).trim();
+    setConfigValue(values, key, parseConfigValue(key, pair.slice(separator + 1)));
+  }
+
+  validateOverrides(values, 'command line overrides', key => `--set ${key}`);
+  cliOverrides = values;
 }
 
-const defaultConfig: MementorConfig = {
-  docsDir: 'docs',
-  templatesDir: 'docs/templates',
-  gitIntegration: true,
-};
+/**
+ * Checks override values against the schema, reporting each problem under the
+ * environment variable or flag that set it rather than its dotted key.
+ */
+function validateOverrides(values: RawConfig, origin: string, name: (key: string) => string): void {
+  const issues = validateConfig(values);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(
+      origin,
+      issues.map(issue => ({ ...issue, key: name(issue.key.replace(/\[.*$/, '')) })),
+    );
+  }
+}
+
+/**
+ * Options for reading a configuration file.
+ * @interface ReadConfigOptions
+ * @property {boolean} [legacy] - Whether the file may predate `configVersion`. The user
+ *   configuration was introduced with version 2, so an unversioned user file is current.
+ */
+export interface ReadConfigOptions {
+  legacy?: boolean;
+}
 
 /**
- * Load mementor configuration from the current directory
+ * Reads and parses a configuration file as written, without upgrading it.
+ * @returns The raw config, or null when the file does not exist
  */
-export async function getConfig(): Promise<MementorConfig> {
+async function parseConfigFile(file: string): Promise<RawConfig | null> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+
+  let parsed: unknown;
   try {
-    const configPath = path.join(process.cwd(), 'mementor.json');
-    const content = await fs.readFile(configPath, 'utf-8');
-    return { ...defaultConfig, ...JSON.parse(content) };
-  } catch {
-    // If config file doesn't exist, return default config
-    return defaultConfig;
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new ConfigValidationError(file, [
+      { key: '(root)', message: `is not valid JSON: ${(error as Error).message}` },
+    ]);
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ConfigValidationError(file, [{ key: '(root)', message: 'must be a JSON object' }]);
+  }
+
+  return parsed as RawConfig;
+}
+
+/**
+ * Files already reported as using an older format, so the warning is printed once per process.
+ */
+const reportedLegacyFiles = new Set<string>();
+
+/**
+ * Reads and parses a configuration file, upgrading it to the current format in memory if
+ * needed. Run `mementor config migrate` to upgrade the file itself.
+ * @async
+ * @param {string} file - Path to the configuration file
+ * @param {ReadConfigOptions} [options] - Whether unversioned files use the legacy format
+ * @returns {Promise<RawConfig | null>} The raw config, or null when the file does not exist
+ * @throws {ConfigValidationError} When the file is not valid JSON
+ */
+export async function readConfigFile(
+  file: string,
+  options: ReadConfigOptions = {},
+): Promise<RawConfig | null> {
+  const { legacy = true } = options;
+
+  const raw = await parseConfigFile(file);
+  if (!raw) return null;
+  if (!legacy && raw.configVersion === undefined) return raw;
+
+  const { config, applied } = migrateConfig(raw);
+  if (applied.length > 0 && !reportedLegacyFiles.has(path.resolve(file))) {
+    reportedLegacyFiles.add(path.resolve(file));
+    console.warn(
+      `${path.basename(file)} uses config version ${detectConfigVersion(raw)}, run \`mementor config migrate\` to upgrade it to version ${CONFIG_VERSION}`,
+    );
   }
+
+  return config;
+}
+
+/**
+ * Upgrades a configuration file to the current format on disk.
+ * @async
+ * @param {string} file - Path to the configuration file
+ * @returns {Promise<ConfigMigration[]>} The migrations applied, empty when the file is current
+ *   or does not exist
+ * @throws {ConfigValidationError} When the file is invalid before or after the upgrade
+ */
+export async function migrateConfigFile(file: string): Promise<ConfigMigration[]> {
+  const raw = await parseConfigFile(file);
+  if (!raw) return [];
+
+  const { config, applied } = migrateConfig(raw);
+  if (applied.length > 0) {
+    await writeConfigFile(file, config);
+  }
+  return applied;
+}
+
+/**
+ * Recursively merges plain objects, with values from `override` taking precedence.
+ */
+function mergeConfig<T>(base: T, override: RawConfig): T {
+  const result: RawConfig = { ...(base as RawConfig) };
+
+  for (const [key, value] of Object.entries(override)) {
+    const current = result[key];
+    if (
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      typeof current === 'object' &&
+      current !== null &&
+      !Array.isArray(current)
+    ) {
+      result[key] = mergeConfig(current, value as RawConfig);
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Where an effective configuration value came from.
+ */
+export type ConfigSource = 'default' | 'user' | 'project' | 'env' | 'cli';
+
+/**
+ * One layer of configuration values, in order of increasing precedence.
+ * @interface ConfigLayer
+ * @property {ConfigSource} source - Origin of the values
+ * @property {string} [file] - File the values were read from, if any
+ * @property {RawConfig} values - The values this layer contributes
+ */
+export interface ConfigLayer {
+  source: ConfigSource;
+  file?: string;
+  values: RawConfig;
+}
+
+/**
+ * The effective configuration together with the origin of every value.
+ * @interface ResolvedConfig
+ * @property {ProjectConfig} config - The merged configuration
+ * @property {ConfigLayer[]} layers - Every layer that contributed, lowest precedence first
+ * @property {Record<string, ConfigLayer>} origins - Layer that supplied each dotted leaf key
+ */
+export interface ResolvedConfig {
+  config: ProjectConfig;
+  layers: ConfigLayer[];
+  origins: Record<string, ConfigLayer>;
+}
+
+/**
+ * Flattens a nested configuration object into dotted leaf keys. Arrays are treated as leaves.
+ * @param {RawConfig} values - Configuration object
+ * @param {string} [prefix] - Key prefix used while recursing
+ * @returns {Record<string, unknown>} Map of dotted keys to values
+ */
+export function flattenConfig(values: RawConfig, prefix: string = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(values)) {
+    const dotted = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      Object.assign(result, flattenConfig(value as RawConfig, dotted));
+    } else if (value !== undefined) {
+      result[dotted] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads a value by dotted key, e.g. `git.commitPrefix`.
+ * @param {RawConfig} values - Configuration object
+ * @param {string} key - Dotted key
+ * @returns {unknown} The value, or undefined when it is not set
+ */
+export function getConfigValue(values: RawConfig, key: string): unknown {
+  let current: unknown = values;
+  for (const part of key.split('.')) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as RawConfig)[part];
+  }
+  return current;
+}
+
+/**
+ * Sets a value by dotted key, creating intermediate objects as needed.
+ * @param {RawConfig} values - Configuration object to modify
+ * @param {string} key - Dotted key
+ * @param {unknown} value - Value to set
+ */
+export function setConfigValue(values: RawConfig, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let current = values;
+  for (const part of parts.slice(0, -1)) {
+    const next = current[part];
+    if (typeof next !== 'object' || next === null || Array.isArray(next)) {
+      current[part] = {};
+    }
+    current = current[part] as RawConfig;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Removes a value by dotted key and prunes objects left empty.
+ * @param {RawConfig} values - Configuration object to modify
+ * @param {string} key - Dotted key
+ * @returns {boolean} True when a value was removed
+ */
+export function unsetConfigValue(values: RawConfig, key: string): boolean {
+  const [head, ...rest] = key.split('.');
+  if (!(head in values)) return false;
+
+  if (rest.length === 0) {
+    delete values[head];
+    return true;
+  }
+
+  const child = values[head];
+  if (typeof child !== 'object' || child === null || Array.isArray(child)) return false;
+
+  const removed = unsetConfigValue(child as RawConfig, rest.join('.'));
+  if (removed && Object.keys(child).length === 0) {
+    delete values[head];
+  }
+  return removed;
+}
+
+/**
+ * Converts a command line string into a value of the type the schema expects for `key`.
+ * @param {string} key - Dotted key the value is meant for
+ * @param {string} input - Raw string value
+ * @returns {unknown} The parsed value
+ * @throws {Error} When the key is unknown or the value cannot be converted
+ */
+export function parseConfigValue(key: string, input: string): unknown {
+  const schema = getSchemaForKey(key);
+  if (!schema) {
+    throw new Error(`Unknown configuration key "${key}"`);
+  }
+
+  switch (schema.type) {
+    case 'boolean':
+      if (['true', 'yes', 'on', '1'].includes(input.toLowerCase())) return true;
+      if (['false', 'no', 'off', '0'].includes(input.toLowerCase())) return false;
+      throw new Error(`"${key}" expects a boolean but got "${input}"`);
+    case 'integer':
+    case 'number': {
+      const value = Number(input);
+      if (input.trim() === '' || Number.isNaN(value)) {
+        throw new Error(`"${key}" expects a number but got "${input}"`);
+      }
+      return value;
+    }
+    case 'array':
+      if (input.trim().startsWith('[')) return JSON.parse(input);
+      return input
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
+    case 'object':
+      return JSON.parse(input);
+    default:
+      return input;
+  }
+}
+
+/**
+ * Validates and writes raw values to a configuration file.
+ * @async
+ * @param {string} file - Path of the configuration file
+ * @param {RawConfig} values - Values to write
+ * @throws {ConfigValidationError} When the values do not match the schema
+ */
+export async function writeConfigFile(file: string, values: RawConfig): Promise<void> {
+  const issues = validateConfig(values);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(file, issues);
+  }
+
+  await fsPlan.mkdir(path.dirname(file));
+  await fsPlan.writeFile(file, JSON.stringify(values, null, 2) + '\n');
+}
+
+/**
+ * Loads every configuration layer and merges them, recording where each value came from.
+ * Precedence, lowest first: built-in defaults, the user configuration file, the project's
+ * `mementor.json`, `MEMENTOR_*` environment variables and `--set` command line overrides.
+ * @async
+ * @param {string} [cwd] - Project root directory
+ * @returns {Promise<ResolvedConfig>} The effective configuration and its origins
+ * @throws {ConfigValidationError} When any layer is invalid
+ */
+export async function resolveConfig(cwd: string = process.cwd()): Promise<ResolvedConfig> {
+  const layers: ConfigLayer[] = [
+    { source: 'default', values: getDefaultConfig(cwd) as unknown as RawConfig },
+  ];
+
+  const files: Array<{ source: ConfigSource; file: string; legacy: boolean }> = [
+    { source: 'user', file: getUserConfigPath(), legacy: false },
+    { source: 'project', file: getConfigPath(cwd), legacy: true },
+  ];
+  for (const { source, file, legacy } of files) {
+    const raw = await readConfigFile(file, { legacy });
+    if (!raw) continue;
+
+    const issues = validateConfig(raw);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(file, issues);
+    }
+    layers.push({ source, file, values: raw });
+  }
+
+  const env = readEnvironmentConfig();
+  if (Object.keys(env).length > 0) {
+    layers.push({ source: 'env', values: env });
+  }
+  if (Object.keys(cliOverrides).length > 0) {
+    layers.push({ source: 'cli', values: cliOverrides });
+  }
+
+  const origins: Record<string, ConfigLayer> = {};
+  let merged: RawConfig = {};
+  for (const layer of layers) {
+    merged = mergeConfig(merged, layer.values);
+    for (const key of Object.keys(flattenConfig(layer.values))) {
+      origins[key] = layer;
+    }
+  }
+
+  return { config: merged as unknown as ProjectConfig, layers, origins };
+}
+
+/**
+ * Loads the effective configuration for a project, see {@link resolveConfig} for precedence.
+ * Old configuration files are migrated in memory before validation.
+ * @async
+ * @param {string} [cwd] - Project root directory
+ * @returns {Promise<ProjectConfig>} The effective configuration
+ * @throws {ConfigValidationError} When `mementor.json` is invalid
+ */
+export async function getConfig(cwd: string = process.cwd()): Promise<ProjectConfig> {
+  const { config } = await resolveConfig(cwd);
+  return config;
+}
+
+/**
+ * Writes values to the project's `mementor.json`. Pass only the values that belong to the
+ * project, e.g. the `project` layer of {@link resolveConfig}, so defaults and the user,
+ * environment and command line layers do not end up in the file.
+ * @async
+ * @param {RawConfig} values - Values to save
+ * @param {string} [cwd] - Project root directory
+ * @throws {ConfigValidationError} When the values do not match the schema
+ */
+export async function saveConfig(values: RawConfig, cwd: string = process.cwd()): Promise<void> {
+  await writeConfigFile(getConfigPath(cwd), values);
 }
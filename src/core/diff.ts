@@ -0,0 +1,128 @@
+/**
+ * Line based diffing used to preview changes to documents before they are written.
+ */
+
+/**
+ * One line of a line diff.
+ * @interface DiffLine
+ * @property {' ' | '-' | '+'} type - Unchanged, removed or added
+ * @property {string} text - Line content without the newline
+ */
+export interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  // A trailing newline terminates the last line rather than starting a new one
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * Computes a line diff between two texts using the longest common subsequence.
+ * @param {string} before - Original text
+ * @param {string} after - Changed text
+ * @returns {DiffLine[]} Every line of both texts marked as unchanged, removed or added
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Common prefix and suffix need no comparison and keep the table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start;
+  const cols = endB - start;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[start + i] === b[start + j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: ' ', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && a[start + i] === b[start + j]) {
+      result.push({ type: ' ', text: a[start + i] });
+      i++;
+      j++;
+    } else if (j < cols && (i === rows || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      result.push({ type: '+', text: b[start + j] });
+      j++;
+    } else {
+      result.push({ type: '-', text: a[start + i] });
+      i++;
+    }
+  }
+  result.push(...a.slice(endA).map(text => ({ type: ' ' as const, text })));
+
+  return result;
+}
+
+/**
+ * Formats the difference between two texts as a unified diff.
+ * @param {string} before - Original text
+ * @param {string} after - Changed text
+ * @param {Object} [options] - Formatting options
+ * @param {string} [options.fromFile] - Label for the original text
+ * @param {string} [options.toFile] - Label for the changed text
+ * @param {number} [options.context] - Unchanged lines shown around each change
+ * @returns {string} Unified diff, or an empty string when the texts are identical
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  options: { fromFile?: string; toFile?: string; context?: number } = {},
+): string {
+  const { fromFile = 'a', toFile = 'b', context = 3 } = options;
+  const lines = diffLines(before, after);
+  const changed = lines.map((line, index) => (line.type === ' ' ? -1 : index)).filter(i => i >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changes whose context overlaps into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+  for (const [first, last] of hunks) {
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length - 1, last + context);
+    const hunk = lines.slice(from, to + 1);
+
+    // Line numbers of the hunk start in the original and the changed text
+    const preceding = lines.slice(0, from);
+    const oldStart = preceding.filter(line => line.type !== '+').length + 1;
+    const newStart = preceding.filter(line => line.type !== '-').length + 1;
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+      ...hunk.map(line => `${line.type}${line.text}`),
+    );
+  }
+
+  return output.join('\n');
+}
@@ -1,23 +1,24 @@
-import fs from 'fs/promises';
 import path from 'path';
-import { ContextSnapshot, ProjectConfig } from '../types';
+import { ProjectConfig, Snapshot } from '../types';
+import { resolvePaths } from './paths';
+import * as fsPlan from './file-plan';
 
 /**
  * Updates documentation based on changes in a source file.
  * @async
  * @param {string} filepath - Path to the changed file
- * @param {ContextSnapshot} snapshot - Current documentation snapshot
+ * @param {Snapshot | null} snapshot - Snapshot taken for the change, null when no document changed
  * @param {ProjectConfig} config - Project configuration
  * @throws {Error} When documentation update fails
  */
 export async function updateDocumentation(
   filepath: string,
-  snapshot: ContextSnapshot,
+  snapshot: Snapshot | null,
   config: ProjectConfig,
 ): Promise<void> {
   try {
     // Read the changed file
-    const content = await fs.readFile(filepath, 'utf-8');
+    const content = await fsPlan.readFile(filepath);
 
     // Determine documentation type based on file
     const docType = getDocumentationType(filepath);
@@ -37,8 +38,10 @@ export async function updateDocumentation(
         console.warn('No specific documentation update needed for this file type');
     }
 
-    // Update changelog
-    await updateChangelog(filepath, snapshot, config);
+    // Update changelog, unless there are no document changes to add
+    if (snapshot) {
+      await updateChangelog(filepath, snapshot, config);
+    }
   } catch (error) {
     console.error('Error updating documentation:', error);
     throw error;
@@ -74,7 +77,7 @@ async function updateComponentDocs(
   const componentDoc = extractComponentDoc(_content);
 
   // Update DEVELOPMENT.md with component info
-  const devDocsPath = path.join(_config.docsDir, 'DEVELOPMENT.md');
+  const devDocsPath = path.join(resolvePaths(_config).docsDir, 'DEVELOPMENT.md');
   await updateComponentSection(devDocsPath, componentName, componentDoc);
 }
 
@@ -112,21 +115,21 @@ async function updateUtilDocs(
  * Updates the changelog with new changes.
  * @async
  * @param {string} filepath - Path to the changed file
- * @param {ContextSnapshot} snapshot - Current documentation snapshot
+ * @param {Snapshot} snapshot - Current documentation snapshot
  * @param {ProjectConfig} config - Project configuration
  */
 async function updateChangelog(
   filepath: string,
-  snapshot: ContextSnapshot,
+  snapshot: Snapshot,
   config: ProjectConfig,
 ): Promise<void> {
-  const changelogPath = path.join(config.docsDir, 'CHANGELOG.md');
-  const changelog = await fs.readFile(changelogPath, 'utf-8');
+  const changelogPath = path.join(resolvePaths(config).docsDir, 'CHANGELOG.md');
+  const changelog = await fsPlan.readFile(changelogPath);
 
   // Add new changes to unreleased section
   const updatedChangelog = addUnreleasedChanges(changelog, snapshot);
 
-  await fs.writeFile(changelogPath, updatedChangelog, 'utf-8');
+  await fsPlan.writeFile(changelogPath, updatedChangelog);
 }
 
 /**
@@ -154,7 +157,7 @@ async function updateComponentSection(
   componentName: string,
   componentDoc: string,
 ): Promise<void> {
-  const devDocs = await fs.readFile(devDocsPath, 'utf-8');
+  const devDocs = await fsPlan.readFile(devDocsPath);
 
   // Find components section and update
   // This is a simplified version - would need more robust parsing
@@ -165,16 +168,16 @@ async function updateComponentSection(
     ? devDocs.replace(new RegExp(`### ${componentName}[\\s\\S]*?(?=##|$)`), componentSection)
     : devDocs + '\n' + componentSection;
 
-  await fs.writeFile(devDocsPath, updatedDocs, 'utf-8');
+  await fsPlan.writeFile(devDocsPath, updatedDocs);
 }
 
 /**
  * Adds unreleased changes to the changelog.
  * @param {string} changelog - Current changelog content
- * @param {ContextSnapshot} snapshot - Current documentation snapshot
+ * @param {Snapshot} snapshot - Current documentation snapshot
  * @returns {string} Updated changelog content
  */
-function addUnreleasedChanges(changelog: string, snapshot: ContextSnapshot): string {
+function addUnreleasedChanges(changelog: string, snapshot: Snapshot): string {
   const lines = changelog.split('\n');
   const unreleasedIndex = lines.findIndex(line => line.includes('## [Unreleased]'));
 
@@ -190,9 +193,9 @@ function addUnreleasedChanges(changelog: string, snapshot: ContextSnapshot): str
 
 /**
  * Formats changes into a readable string.
- * @param {ContextSnapshot} snapshot - Current documentation snapshot
+ * @param {Snapshot} snapshot - Current documentation snapshot
  * @returns {string} Formatted changes string
  */
-function formatChanges(snapshot: ContextSnapshot): string {
+function formatChanges(snapshot: Snapshot): string {
   return snapshot.changes.map(change => `- ${change.type}: ${change.description}`).join('\n');
 }
@@ -0,0 +1,254 @@
+/**
+ * Filesystem writes that change documentation go through this module. Normally each call is
+ * passed straight to `fs`; in dry-run mode the change is recorded instead, and reads made
+ * through {@link readFile} see the recorded content, so a command can run to completion and
+ * its plan can be printed without touching the disk.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createUnifiedDiff } from './diff';
+
+/**
+ * A change that a command made, or would have made in dry-run mode.
+ * @typedef {Object} PlannedChange
+ */
+export type PlannedChange =
+  | { type: 'mkdir'; path: string }
+  | { type: 'create'; path: string; content: string }
+  | { type: 'edit'; path: string; before: string; content: string }
+  | { type: 'move'; from: string; to: string }
+  | { type: 'copy'; from: string; to: string }
+  | { type: 'remove'; path: string };
+
+let dryRun = false;
+let planned: PlannedChange[] = [];
+// Content of files as they would be after the planned changes, null when removed
+const overlay = new Map<string, string | null>();
+const plannedDirs = new Set<string>();
+
+/**
+ * Turns dry-run mode on or off for the rest of the process.
+ * @param {boolean} enabled - Whether writes should only be recorded
+ */
+export function setDryRun(enabled: boolean): void {
+  dryRun = enabled;
+}
+
+/**
+ * @returns {boolean} True when writes are only recorded
+ */
+export function isDryRun(): boolean {
+  return dryRun;
+}
+
+/**
+ * Checks whether a file or directory exists, including changes planned during a dry run.
+ * @async
+ * @param {string} target - File or directory to check
+ * @returns {Promise<boolean>} True when the target exists
+ */
+export async function exists(target: string): Promise<boolean> {
+  const resolved = path.resolve(target);
+  if (overlay.has(resolved)) return overlay.get(resolved) !== null;
+  if (plannedDirs.has(resolved)) return true;
+  return fs
+    .access(resolved)
+    .then(() => true)
+    .catch(() => false);
+}
+
+/**
+ * Reads a text file, including changes planned during a dry run.
+ * @async
+ * @param {string} file - File to read
+ * @returns {Promise<string>} File content
+ * @throws {Error} When the file does not exist
+ */
+export async function readFile(file: string): Promise<string> {
+  const resolved = path.resolve(file);
+  if (overlay.has(resolved)) {
+    const content = overlay.get(resolved);
+    if (content === null || content === undefined) {
+      throw Object.assign(new Error(`ENOENT: no such file or directory, open '${file}'`), {
+        code: 'ENOENT',
+      });
+    }
+    return content;
+  }
+  return fs.readFile(resolved, 'utf-8');
+}
+
+/**
+ * Writes a text file, or records the creation or edit in dry-run mode.
+ * @async
+ * @param {string} file - File to write
+ * @param {string} content - New content
+ */
+export async function writeFile(file: string, content: string): Promise<void> {
+  if (!dryRun) {
+    await fs.writeFile(file, content, 'utf-8');
+    return;
+  }
+
+  const resolved = path.resolve(file);
+  const previous = planned.find(
+    (change): change is Extract<PlannedChange, { content: string }> =>
+      (change.type === 'create' || change.type === 'edit') && change.path === resolved,
+  );
+
+  if (previous) {
+    previous.content = content;
+  } else {
+    const before = await readFile(resolved).catch(() => null);
+    if (before === content) return;
+    planned.push(
+      before === null
+        ? { type: 'create', path: resolved, content }
+        : { type: 'edit', path: resolved, before, content },
+    );
+  }
+  overlay.set(resolved, content);
+}
+
+/**
+ * Creates a directory and its parents, or records it in dry-run mode.
+ * @async
+ * @param {string} dir - Directory to create
+ */
+export async function mkdir(dir: string): Promise<void> {
+  if (!dryRun) {
+    await fs.mkdir(dir, { recursive: true });
+    return;
+  }
+
+  const resolved = path.resolve(dir);
+  if (await exists(resolved)) return;
+
+  planned.push({ type: 'mkdir', path: resolved });
+  for (let current = resolved; current !== path.dirname(current); current = path.dirname(current)) {
+    plannedDirs.add(current);
+  }
+}
+
+/**
+ * Moves a file, or records the move in dry-run mode.
+ * @async
+ * @param {string} from - Current location
+ * @param {string} to - New location
+ */
+export async function rename(from: string, to: string): Promise<void> {
+  if (!dryRun) {
+    await fs.rename(from, to);
+    return;
+  }
+
+  const content = await readFile(from);
+  overlay.set(path.resolve(from), null);
+  overlay.set(path.resolve(to), content);
+  planned.push({ type: 'move', from: path.resolve(from), to: path.resolve(to) });
+}
+
+/**
+ * Copies a directory recursively, or records the copy in dry-run mode.
+ * @async
+ * @param {string} from - Directory to copy
+ * @param {string} to - Destination directory
+ */
+export async function copyDirectory(from: string, to: string): Promise<void> {
+  if (!dryRun) {
+    await fs.cp(from, to, { recursive: true });
+    return;
+  }
+
+  planned.push({ type: 'copy', from: path.resolve(from), to: path.resolve(to) });
+  plannedDirs.add(path.resolve(to));
+}
+
+/**
+ * Removes a file or directory, or records the removal in dry-run mode. Missing targets are ignored.
+ * @async
+ * @param {string} target - File or directory to remove
+ */
+export async function remove(target: string): Promise<void> {
+  if (!dryRun) {
+    await fs.rm(target, { recursive: true, force: true });
+    return;
+  }
+
+  const resolved = path.resolve(target);
+  if (!(await exists(resolved))) return;
+
+  planned.push({ type: 'remove', path: resolved });
+  overlay.set(resolved, null);
+  plannedDirs.delete(resolved);
+}
+
+/**
+ * Returns the changes recorded so far and starts a new plan.
+ * @returns {PlannedChange[]} Recorded changes in the order they were made
+ */
+export function takePlannedChanges(): PlannedChange[] {
+  const changes = planned;
+  planned = [];
+  overlay.clear();
+  plannedDirs.clear();
+  return changes;
+}
+
+/**
+ * Formats a plan for display, with a unified diff for every edited file.
+ * @param {PlannedChange[]} changes - Changes to describe
+ * @param {string} [root] - Directory paths are shown relative to
+ * @returns {string} Human readable plan
+ */
+export function formatPlan(changes: PlannedChange[], root: string = process.cwd()): string {
+  if (changes.length === 0) {
+    return 'Dry run: no changes would be made.';
+  }
+
+  const relative = (target: string): string => path.relative(root, target) || '.';
+  const lines = [`Dry run: ${changes.length} change(s) would be made, nothing was written.`, ''];
+
+  for (const change of changes) {
+    switch (change.type) {
+      case 'mkdir':
+        lines.push(`  mkdir   ${relative(change.path)}/`);
+        break;
+      case 'create':
+        lines.push(
+          `  create  ${relative(change.path)} (${change.content.split('\n').length - (change.content.endsWith('\n') ? 1 : 0)} lines)`,
+        );
+        break;
+      case 'move':
+        lines.push(`  move    ${relative(change.from)} -> ${relative(change.to)}`);
+        break;
+      case 'copy':
+        lines.push(`  copy    ${relative(change.from)} -> ${relative(change.to)}`);
+        break;
+      case 'remove':
+        lines.push(`  remove  ${relative(change.path)}`);
+        break;
+      case 'edit': {
+        lines.push(`  edit    ${relative(change.path)}`);
+        const diff = createUnifiedDiff(change.before, change.content, {
+          fromFile: `a/${relative(change.path)}`,
+          toFile: `b/${relative(change.path)}`,
+        });
+        lines.push(...diff.split('\n').map(line => `      ${line}`));
+        break;
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Prints the recorded plan and starts a new one. Does nothing outside dry-run mode.
+ * @param {string} [root] - Directory paths are shown relative to
+ */
+export function reportPlannedChanges(root?: string): void {
+  if (!dryRun) return;
+  console.warn(`\n${formatPlan(takePlannedChanges(), root)}`);
+}
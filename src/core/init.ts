@@ -3,10 +3,27 @@ import path from 'path';
 import { ProjectConfig } from '../types';
 import { TemplateRenderer, TemplateData } from '../services/templateRenderer';
 import { SnapshotGenerator } from '../services/snapshotGenerator';
+import { collectTemplateData } from '../services/templateDataProviders';
+import { resolveTemplateDirs } from '../services/templatePacks';
+import { resolvePaths } from './paths';
+import { mergeSections } from './markdown-sections';
+import * as fsPlan from './file-plan';
+
+/**
+ * Options for initializing a project.
+ * @interface InitOptions
+ * @property {boolean} [update] - Merge new template sections into existing documents instead of skipping them
+ * @property {boolean} [explicitName] - Whether `name` was set in a configuration layer rather than defaulted
+ *   to the directory name, in which case it takes precedence over the `package.json` name
+ */
+export interface InitOptions {
+  update?: boolean;
+  explicitName?: boolean;
+}
 
 async function ensureDirectory(dir: string): Promise<void> {
   try {
-    await fs.mkdir(dir, { recursive: true });
+    await fsPlan.mkdir(dir);
     console.warn(`✓ Created directory: ${dir}`);
   } catch (error) {
     if (error instanceof Error) {
@@ -33,7 +50,7 @@ async function createFromTemplate(
     }
 
     const content = await renderer.renderTemplate(templateName, data);
-    await fs.writeFile(targetPath, content);
+    await fsPlan.writeFile(targetPath, content);
     console.warn(`✓ Created ${templateName}`);
   } catch (error) {
     if (error instanceof Error) {
@@ -43,38 +60,91 @@ async function createFromTemplate(
   }
 }
 
-async function initializeTemplates(_config: ProjectConfig): Promise<void> {
+/**
+ * Adds the sections of a template that are missing from an existing document, leaving
+ * everything already in the document untouched. Creates the document when it does not exist.
+ * @returns The heading paths of the added sections, or null when the document was created
+ */
+async function updateFromTemplate(
+  renderer: TemplateRenderer,
+  templateName: string,
+  targetPath: string,
+  data: TemplateData,
+): Promise<string[] | null> {
+  try {
+    const rendered = await renderer.renderTemplate(templateName, data);
+
+    let existing: string;
+    try {
+      existing = await fsPlan.readFile(targetPath);
+    } catch {
+      await fsPlan.writeFile(targetPath, rendered);
+      return null;
+    }
+
+    const { content, added } = mergeSections(existing, rendered);
+    if (added.length > 0) {
+      await fsPlan.writeFile(targetPath, content);
+    }
+    return added;
+  } catch (error) {
+    if (error instanceof Error) {
+      console.error(`Failed to update ${templateName}:`, error.message);
+    }
+    throw error;
+  }
+}
+
+function reportUpdate(file: string, added: string[] | null): void {
+  if (added === null) {
+    console.warn(`✓ Created ${file}`);
+  } else if (added.length === 0) {
+    console.warn(`  ${file}: up to date`);
+  } else {
+    console.warn(`✓ ${file}: added ${added.length} section(s)`);
+    added.forEach(section => console.warn(`    + ${section}`));
+  }
+}
+
+async function initializeTemplates(config: ProjectConfig, options: InitOptions): Promise<void> {
   try {
     // Create required directories
-    const docsDir = path.join(process.cwd(), 'docs/context');
-    const snapshotsDir = path.join(docsDir, 'snapshots');
+    const { root, docsDir, snapshotsDir } = resolvePaths(config);
     await ensureDirectory(docsDir);
     await ensureDirectory(snapshotsDir);
 
-    // Initialize template renderer
-    const renderer = new TemplateRenderer();
-
-    // Get project name from directory
-    const projectName = path.basename(process.cwd());
+    // Initialize template renderer, project templates take precedence over the pack's,
+    // which take precedence over the bundled ones
+    const { templateDirs, pack } = await resolveTemplateDirs(config);
+    const renderer = new TemplateRenderer(templateDirs);
+    console.warn(`Using template pack: ${pack.name}`);
 
-    // Prepare template data
+    // Prepare template data from the pack defaults, then package.json, tsconfig and git
+    const projectData = await collectTemplateData(root);
     const templateData: TemplateData = {
-      project_name: projectName,
-      decision_date: new Date().toISOString().split('T')[0],
+      env_items: ['Node.js', 'TypeScript', 'Git'],
       next_steps: [],
       focus_areas: [],
       issues: [],
-      env_items: ['Node.js', 'TypeScript', 'Git'],
+      ...pack.data,
+      ...projectData,
+      project_name: options.explicitName ? config.name : (projectData.package?.name ?? config.name),
+      decision_date: new Date().toISOString().split('T')[0],
     };
 
     // Get list of available templates
     const templates = await renderer.listTemplates();
     console.warn('Found templates:', templates);
 
-    // Create each template in the project
+    // Create each template in the project, or bring existing documents up to date
     for (const template of templates) {
       const targetPath = path.join(docsDir, `${template}.md`);
-      await createFromTemplate(renderer, template, targetPath, templateData);
+      if (options.update) {
+        const added = await updateFromTemplate(renderer, template, targetPath, templateData);
+        reportUpdate(`${template}.md`, added);
+      } else {
+        await createFromTemplate(renderer, template, targetPath, templateData);
+      }
     }
   } catch (error) {
     if (error instanceof Error) {
@@ -84,16 +154,26 @@ async function initializeTemplates(_config: ProjectConfig): Promise<void> {
   }
 }
 
-export async function initializeProject(config: ProjectConfig): Promise<void> {
+export async function initializeProject(
+  config: ProjectConfig,
+  options: InitOptions = {},
+): Promise<void> {
   try {
     // Initialize templates
-    await initializeTemplates(config);
+    await initializeTemplates(config, options);
+
+    if (options.update) {
+      console.warn('\n✨ Documentation updated from the current templates!');
+      return;
+    }
 
     // Create initial snapshot
+    const { docsDir, snapshotsDir } = resolvePaths(config);
     const generator = new SnapshotGenerator();
-    const docsDir = path.join(process.cwd(), 'docs/context');
-    const snapshotsDir = path.join(docsDir, 'snapshots');
-    await generator.createSnapshot(path.join(docsDir, 'active_context.md'), snapshotsDir);
+    await generator.createSnapshot(docsDir, snapshotsDir, {
+      trigger: 'init',
+      maxGradeLevel: config.health.maxGradeLevel,
+    });
 
     console.warn('\n✨ Project initialized successfully!');
   } catch (error) {
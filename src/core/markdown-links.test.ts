@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { analyzeLinks, extractLinks, headingAnchors } from './markdown-links';
+
+describe('extractLinks', () => {
+  it('finds inline links, images and definitions with their line numbers', () => {
+    const content = [
+      'See [the guide](guide.md "Guide") and ![diagram](<img/a b.png>).',
+      '',
+      '[site]: https://example.com',
+    ].join('\n');
+
+    expect(extractLinks(content)).toEqual([
+      { kind: 'inline', text: 'the guide', target: 'guide.md', line: 1 },
+      { kind: 'image', text: 'diagram', target: 'img/a b.png', line: 1 },
+      { kind: 'definition', text: 'site', target: 'https://example.com', line: 3 },
+    ]);
+  });
+
+  it('resolves full, collapsed and shortcut references to their definitions', () => {
+    const content = [
+      'Read [the docs][Docs], [docs][] and [docs].',
+      '',
+      '[docs]: ./structure.md#overview',
+    ].join('\n');
+
+    const references = extractLinks(content).filter(link => link.kind === 'reference');
+    expect(references).toEqual([
+      {
+        kind: 'reference',
+        text: 'the docs',
+        target: './structure.md#overview',
+        line: 1,
+        reference: 'docs',
+      },
+      {
+        kind: 'reference',
+        text: 'docs',
+        target: './structure.md#overview',
+        line: 1,
+        reference: 'docs',
+      },
+      {
+        kind: 'reference',
+        text: 'docs',
+        target: './structure.md#overview',
+        line: 1,
+        reference: 'docs',
+      },
+    ]);
+  });
+
+  it('keeps full references without a definition so they can be reported', () => {
+    expect(extractLinks('See [setup][missing].')).toEqual([
+      { kind: 'reference', text: 'setup', target: '', line: 1, reference: 'missing' },
+    ]);
+  });
+
+  it('ignores code, task list boxes and undefined shortcut references', () => {
+    const content = [
+      '- [ ] Open task',
+      '- [x] Done task',
+      'An [aside] in brackets and `[code](link.md)`.',
+      '```',
+      '[fenced](link.md)',
+      '```',
+    ].join('\n');
+
+    expect(extractLinks(content)).toEqual([]);
+  });
+});
+
+describe('headingAnchors', () => {
+  it('generates GitHub style anchors and numbers repeated headings', () => {
+    const content =
+      '# Project Overview\n\n## What’s next?\n\n## Notes\n\n### Notes\n\n## API_v2 & more\n';
+
+    expect([...headingAnchors(content)]).toEqual([
+      'project-overview',
+      'whats-next',
+      'notes',
+      'notes-1',
+      'api_v2--more',
+    ]);
+  });
+});
+
+describe('analyzeLinks', () => {
+  let root: string;
+  let file: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-links-'));
+    await fs.mkdir(path.join(root, 'docs'));
+    await fs.mkdir(path.join(root, 'src'));
+    await fs.writeFile(path.join(root, 'docs', 'guide.md'), '# Guide\n\n## Setup Steps\n');
+    await fs.writeFile(path.join(root, 'src', 'index.ts'), 'one\ntwo\nthree\n');
+    file = path.join(root, 'docs', 'readme.md');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  async function analyze(content: string): ReturnType<typeof analyzeLinks> {
+    return analyzeLinks(file, content, root);
+  }
+
+  it('accepts existing files, headings and line ranges', async () => {
+    const report = await analyze(
+      [
+        '# Readme',
+        '[guide](guide.md) [steps](guide.md#setup-steps) [top](#readme)',
+        '[code](../src/index.ts#L2-L3) [line](/src/index.ts#L3) [folder](../src)',
+        '[web](https://example.com) [mail](mailto:a@example.com)',
+      ].join('\n'),
+    );
+
+    expect(report.broken).toEqual([]);
+    expect(report.linkedFiles).toEqual(['docs/guide.md', 'src', 'src/index.ts']);
+  });
+
+  it('reports missing files, headings and lines past the end', async () => {
+    const report = await analyze(
+      [
+        '[gone](missing.md)',
+        '[anchor](guide.md#install)',
+        '[self](#nowhere)',
+        '[range](../src/index.ts#L2-L4)',
+      ].join('\n'),
+    );
+
+    expect(report.broken.map(link => [link.line, link.target, link.reason])).toEqual([
+      [1, 'missing.md', 'file does not exist'],
+      [2, 'guide.md#install', 'no heading for #install'],
+      [3, '#nowhere', 'no heading for #nowhere'],
+      [4, '../src/index.ts#L2-L4', 'line 4 is past the end (3 lines)'],
+    ]);
+    expect(report.linkedFiles).toEqual(['docs/guide.md', 'src/index.ts']);
+  });
+
+  it('checks reference links where they are defined', async () => {
+    const report = await analyze(
+      ['Read [the guide][guide] and [setup][undefined].', '', '[guide]: ./gone.md'].join('\n'),
+    );
+
+    expect(report.broken.map(link => [link.kind, link.line, link.reason])).toEqual([
+      ['reference', 1, 'reference [undefined] is not defined'],
+      ['definition', 3, 'file does not exist'],
+    ]);
+  });
+
+  it('decodes percent-encoded paths and anchors', async () => {
+    await fs.writeFile(path.join(root, 'docs', 'release notes.md'), '# Über uns\n');
+
+    const report = await analyze('[notes](release%20notes.md#%C3%BCber-uns)');
+
+    expect(report.broken).toEqual([]);
+    expect(report.linkedFiles).toEqual(['docs/release notes.md']);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Finds the links in markdown documents and checks that their targets exist: other files,
+ * headings in the same or another document, and line ranges in source files.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { parseSections, MarkdownSection } from './markdown-sections';
+
+/**
+ * A link found in a markdown document.
+ * @interface MarkdownLink
+ * @property {'inline' | 'image' | 'reference' | 'definition'} kind - How the link is written:
+ *   `[text](target)`, `![alt](target)`, `[text][ref]` or a `[ref]: target` definition
+ * @property {string} text - Link text, or the reference label of a definition
+ * @property {string} target - Link target, empty for a reference without a definition
+ * @property {number} line - Line number, starting at 1
+ * @property {string} [reference] - Reference label of a reference link
+ */
+export interface MarkdownLink {
+  kind: 'inline' | 'image' | 'reference' | 'definition';
+  text: string;
+  target: string;
+  line: number;
+  reference?: string;
+}
+
+/**
+ * A link whose target does not exist.
+ * @interface BrokenLink
+ * @property {string} reason - Why the link is broken
+ */
+export interface BrokenLink extends MarkdownLink {
+  reason: string;
+}
+
+/**
+ * Links of a document and the result of checking them.
+ * @interface LinkReport
+ * @property {MarkdownLink[]} links - Every link in document order
+ * @property {string[]} linkedFiles - Existing local files the document links to, relative to the root
+ * @property {BrokenLink[]} broken - Links whose target does not exist
+ */
+export interface LinkReport {
+  links: MarkdownLink[];
+  linkedFiles: string[];
+  broken: BrokenLink[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const INLINE_LINK =
+  /(!?)\[((?:[^[\]]|\[[^\]]*\])*)\]\(\s*(<[^>]*>|[^\s)]*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+const REFERENCE_LINK = /(!?)\[([^\]]+)\]\[([^\]]*)\]/g;
+const SHORTCUT_REFERENCE = /\[([^\]]+)\](?![[(:])/g;
+const DEFINITION = /^ {0,3}\[([^\]]+)\]:\s*(<[^>]*>|\S+)/;
+const EXTERNAL = /^[a-z][a-z0-9+.-]*:/i;
+const LINE_RANGE = /^L(\d+)(?:-L?(\d+))?$/;
+
+function normalizeReference(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function decode(value: string, decoder: (value: string) => string): string {
+  try {
+    return decoder(value);
+  } catch {
+    // Malformed escapes are compared as written
+    return value;
+  }
+}
+
+function unwrap(target: string): string {
+  return target.startsWith('<') && target.endsWith('>') ? target.slice(1, -1) : target;
+}
+
+/**
+ * Blanks out inline code spans so links inside them are not picked up.
+ */
+function stripCodeSpans(line: string): string {
+  return line.replace(/(`+)[\s\S]*?\1/g, match => ' '.repeat(match.length));
+}
+
+/**
+ * Finds every link in a markdown document. Links inside fenced code blocks and code spans
+ * are ignored. Reference links carry the target of their definition.
+ * @param {string} content - Markdown document
+ * @returns {MarkdownLink[]} Links in document order
+ */
+export function extractLinks(content: string): MarkdownLink[] {
+  const lines = content.split('\n');
+  const definitions = new Map<string, string>();
+  const links: MarkdownLink[] = [];
+  let fence: string | null = null;
+
+  // Definitions can appear after the links that use them, so collect them first
+  const prose = lines.map(line => {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      return '';
+    }
+    return fence ? '' : stripCodeSpans(line);
+  });
+
+  prose.forEach((line, index) => {
+    const definition = line.match(DEFINITION);
+    if (!definition) return;
+    const label = normalizeReference(definition[1]);
+    const target = unwrap(definition[2]);
+    if (!definitions.has(label)) definitions.set(label, target);
+    links.push({ kind: 'definition', text: definition[1], target, line: index + 1 });
+  });
+
+  prose.forEach((source, index) => {
+    if (DEFINITION.test(source)) return;
+    const line = index + 1;
+    let rest = source;
+
+    for (const match of source.matchAll(INLINE_LINK)) {
+      const kind = match[1] ? 'image' : 'inline';
+      links.push({ kind, text: match[2], target: unwrap(match[3]), line });
+      rest = rest.replace(match[0], ' '.repeat(match[0].length));
+    }
+
+    for (const match of rest.matchAll(REFERENCE_LINK)) {
+      const reference = normalizeReference(match[3] || match[2]);
+      const target = definitions.get(reference) ?? '';
+      links.push({ kind: 'reference', text: match[2], target, line, reference });
+      rest = rest.replace(match[0], ' '.repeat(match[0].length));
+    }
+
+    // `[label]` on its own is only a link when the label is defined, which also keeps
+    // task list boxes such as `[ ]` and `[x]` out
+    for (const match of rest.matchAll(SHORTCUT_REFERENCE)) {
+      const reference = normalizeReference(match[1]);
+      const target = definitions.get(reference);
+      if (target !== undefined) {
+        links.push({ kind: 'reference', text: match[1], target, line, reference });
+      }
+    }
+  });
+
+  return links.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Returns the anchors of a document's headings the way GitHub generates them: lower case,
+ * punctuation removed, spaces replaced by `-`, and `-1`, `-2`, … added to repeated headings.
+ * @param {string} content - Markdown document
+ * @returns {Set<string>} Heading anchors without the leading `#`
+ */
+export function headingAnchors(content: string): Set<string> {
+  const anchors = new Set<string>();
+  const seen = new Map<string, number>();
+
+  const visit = (section: MarkdownSection): void => {
+    if (section.level > 0) {
+      const slug = section.title
+        .trim()
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .replace(/\s/g, '-');
+      const count = seen.get(slug) ?? 0;
+      seen.set(slug, count + 1);
+      anchors.add(count === 0 ? slug : `${slug}-${count}`);
+    }
+    section.children.forEach(visit);
+  };
+  visit(parseSections(content));
+
+  return anchors;
+}
+
+/**
+ * Finds the links of a document and checks that every local target exists. External links
+ * such as `https:` and `mailto:` are not checked.
+ * @async
+ * @param {string} file - Path of the document, relative links are resolved against its directory
+ * @param {string} content - Content of the document
+ * @param {string} [root] - Project root, links starting with `/` are resolved against it
+ * @returns {Promise<LinkReport>} The links, the files they point to and the broken ones
+ */
+export async function analyzeLinks(
+  file: string,
+  content: string,
+  root: string = process.cwd(),
+): Promise<LinkReport> {
+  const links = extractLinks(content);
+  const linkedFiles = new Set<string>();
+  const broken: BrokenLink[] = [];
+  const contents = new Map<string, Promise<string | null>>([
+    [path.resolve(file), Promise.resolve(content)],
+  ]);
+
+  // Each target is read at most once, null when it does not exist or is a directory
+  const read = (target: string): Promise<string | null> => {
+    if (!contents.has(target)) {
+      contents.set(
+        target,
+        fs
+          .readFile(target, 'utf-8')
+          .catch((error: NodeJS.ErrnoException) => (error.code === 'EISDIR' ? '' : null)),
+      );
+    }
+    return contents.get(target)!;
+  };
+
+  for (const link of links) {
+    if (link.kind === 'reference') {
+      // The target is checked where the reference is defined
+      if (!link.target) {
+        broken.push({ ...link, reason: `reference [${link.reference}] is not defined` });
+      }
+      continue;
+    }
+    if (!link.target || EXTERNAL.test(link.target)) continue;
+
+    const hash = link.target.indexOf('#');
+    const targetPath = hash === -1 ? link.target : link.target.slice(0, hash);
+    const fragment = hash === -1 ? '' : link.target.slice(hash + 1);
+
+    const decoded = decode(targetPath, decodeURI);
+    const resolved = !decoded
+      ? path.resolve(file)
+      : decoded.startsWith('/')
+        ? path.join(root, decoded)
+        : path.resolve(path.dirname(file), decoded);
+
+    const targetContent = await read(resolved);
+    if (targetContent === null) {
+      broken.push({ ...link, reason: 'file does not exist' });
+      continue;
+    }
+    if (decoded) {
+      linkedFiles.add(path.relative(root, resolved).split(path.sep).join('/'));
+    }
+    if (!fragment) continue;
+
+    const range = fragment.match(LINE_RANGE);
+    if (range) {
+      const lineCount = targetContent.replace(/\n$/, '').split('\n').length;
+      const last = Math.max(Number(range[1]), Number(range[2] ?? range[1]));
+      if (last > lineCount) {
+        broken.push({ ...link, reason: `line ${last} is past the end (${lineCount} lines)` });
+      }
+    } else if (path.extname(resolved) === '.md') {
+      const anchor = decode(fragment, decodeURIComponent).toLowerCase();
+      if (!headingAnchors(targetContent).has(anchor)) {
+        broken.push({ ...link, reason: `no heading for #${fragment}` });
+      }
+    }
+  }
+
+  return { links, linkedFiles: [...linkedFiles].sort(), broken };
+}
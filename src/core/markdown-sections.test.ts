@@ -0,0 +1,93 @@
+import { mergeSections, parseSections, stringifySections } from './markdown-sections';
+
+describe('parseSections', () => {
+  it('round-trips documents unchanged', () => {
+    const content = 'Intro\n\n# Title\n\nText\n\n## Child\n\n- item\n\n# Other\n';
+
+    expect(stringifySections(parseSections(content))).toBe(content);
+  });
+
+  it('nests sections by heading level and ignores headings in code blocks', () => {
+    const root = parseSections('# A\n\n```md\n# Not a heading\n```\n\n## B\n\n### C\n\n## D\n');
+
+    const titles = (section: ReturnType<typeof parseSections>): unknown[] =>
+      section.children.map(child => [child.title, titles(child)]);
+    expect(titles(root)).toEqual([
+      [
+        'A',
+        [
+          ['B', [['C', []]]],
+          ['D', []],
+        ],
+      ],
+    ]);
+  });
+});
+
+describe('mergeSections', () => {
+  it('leaves documents that have every template section unchanged', () => {
+    const existing = '# Progress\n\n## Done\n\n- Shipped the CLI\n\n## Next\n\n- Tests\n';
+    const template = '# Progress\n\n## Done\n\n- List completed work\n\n## Next\n\n- Plans\n';
+
+    expect(mergeSections(existing, template)).toEqual({ content: existing, added: [] });
+  });
+
+  it('inserts a missing section after the section preceding it in the template', () => {
+    const existing = '# Progress\n\n## Done\n\n- Shipped the CLI\n\n## Next\n\n- Tests\n';
+    const template =
+      '# Progress\n\n## Done\n\n- List completed work\n\n## Blockers\n\n- None\n\n## Next\n\n- Plans\n';
+
+    expect(mergeSections(existing, template)).toEqual({
+      content:
+        '# Progress\n\n## Done\n\n- Shipped the CLI\n\n## Blockers\n\n- None\n\n## Next\n\n- Tests\n',
+      added: ['Progress > Blockers'],
+    });
+  });
+
+  it('adds subsections to an existing heading without touching its content', () => {
+    const existing = '# Tech\n\n## Stack\n\nNode and TypeScript.\n\n## Setup\n\nRun npm install.\n';
+    const template =
+      '# Tech\n\n## Stack\n\n### Runtime\n\n- Runtime\n\n### Tooling\n\n- Tools\n\n## Setup\n\n- Steps\n';
+
+    const { content, added } = mergeSections(existing, template);
+
+    expect(added).toEqual(['Tech > Stack > Runtime', 'Tech > Stack > Tooling']);
+    expect(content).toBe(
+      '# Tech\n\n## Stack\n\nNode and TypeScript.\n\n### Runtime\n\n- Runtime\n\n### Tooling\n\n- Tools\n\n## Setup\n\nRun npm install.\n',
+    );
+  });
+
+  it('adds missing subsections below existing ones of the same heading', () => {
+    const existing = '# Tech\n\n## Stack\n\n### Runtime\n\nNode 20\n';
+    const template = '# Tech\n\n## Stack\n\n### Runtime\n\n- Runtime\n\n### Tooling\n\n- Tools\n';
+
+    expect(mergeSections(existing, template)).toEqual({
+      content: '# Tech\n\n## Stack\n\n### Runtime\n\nNode 20\n\n### Tooling\n\n- Tools\n',
+      added: ['Tech > Stack > Tooling'],
+    });
+  });
+
+  it('matches headings ignoring case and whitespace', () => {
+    const existing = '# progress\n\n##   done  \n\n- Shipped\n';
+    const template = '# Progress\n\n## Done\n\n- List completed work\n';
+
+    expect(mergeSections(existing, template).added).toEqual([]);
+  });
+
+  it('keeps sections that are not in the template where they are', () => {
+    const existing = '# Notes\n\n## Custom\n\nMine\n\n## B\n\nText\n';
+    const template = '# Notes\n\n## A\n\n- a\n\n## B\n\n- b\n\n## C\n\n- c\n';
+
+    expect(mergeSections(existing, template)).toEqual({
+      content: '# Notes\n\n## A\n\n- a\n\n## Custom\n\nMine\n\n## B\n\nText\n\n## C\n\n- c\n',
+      added: ['Notes > A', 'Notes > C'],
+    });
+  });
+
+  it('adds whole templates to documents without headings', () => {
+    expect(mergeSections('Some notes\n', '# Title\n\n- Describe\n')).toEqual({
+      content: 'Some notes\n\n# Title\n\n- Describe\n',
+      added: ['Title'],
+    });
+  });
+});
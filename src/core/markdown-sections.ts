@@ -0,0 +1,165 @@
+/**
+ * Splits markdown documents into a tree of sections by their ATX headings so documents
+ * can be compared and merged section by section without touching the text inside them.
+ */
+
+/**
+ * A heading and everything below it up to the next heading of the same or a higher level.
+ * @interface MarkdownSection
+ * @property {number} level - Heading level from 1 to 6, or 0 for the document root
+ * @property {string} title - Heading text without the leading hashes
+ * @property {string[]} lines - The heading line followed by the lines before the first subsection
+ * @property {MarkdownSection[]} children - Subsections in document order
+ */
+export interface MarkdownSection {
+  level: number;
+  title: string;
+  lines: string[];
+  children: MarkdownSection[];
+}
+
+/**
+ * Result of merging a template into an existing document.
+ * @interface SectionMergeResult
+ * @property {string} content - The merged document
+ * @property {string[]} added - Heading paths of the sections that were added, e.g. `Overview > Goals`
+ */
+export interface SectionMergeResult {
+  content: string;
+  added: string[];
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Parses a markdown document into a section tree. Headings inside fenced code blocks are
+ * treated as text. The root section holds any content before the first heading.
+ * @param {string} content - Markdown document
+ * @returns {MarkdownSection} Root section with level 0
+ */
+export function parseSections(content: string): MarkdownSection {
+  const root: MarkdownSection = { level: 0, title: '', lines: [], children: [] };
+  const stack: MarkdownSection[] = [root];
+  let fence: string | null = null;
+
+  for (const line of content.split('\n')) {
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+    }
+
+    const heading = fence || fenceMatch ? null : line.match(HEADING);
+    if (!heading) {
+      stack[stack.length - 1].lines.push(line);
+      continue;
+    }
+
+    const section: MarkdownSection = {
+      level: heading[1].length,
+      title: heading[2],
+      lines: [line],
+      children: [],
+    };
+    while (stack[stack.length - 1].level >= section.level) {
+      stack.pop();
+    }
+    stack[stack.length - 1].children.push(section);
+    stack.push(section);
+  }
+
+  return root;
+}
+
+/**
+ * Serializes a section tree back to markdown. Parsing and serializing an unchanged
+ * document returns the original text.
+ * @param {MarkdownSection} section - Section to serialize, usually the root
+ * @returns {string} Markdown document
+ */
+export function stringifySections(section: MarkdownSection): string {
+  return flattenLines(section).join('\n');
+}
+
+function flattenLines(section: MarkdownSection): string[] {
+  return [...section.lines, ...section.children.flatMap(flattenLines)];
+}
+
+/**
+ * Adds the sections of a template that are missing from an existing document. Sections are
+ * matched by heading text (ignoring case and surrounding whitespace) at the same position in
+ * the tree; matched sections keep the existing content and only receive missing subsections.
+ * A missing section is inserted after the section that precedes it in the template.
+ * @param {string} existing - Current document
+ * @param {string} template - Freshly rendered template
+ * @returns {SectionMergeResult} Merged document and the sections that were added
+ */
+export function mergeSections(existing: string, template: string): SectionMergeResult {
+  const target = parseSections(existing);
+  const added: string[] = [];
+
+  mergeChildren(target, parseSections(template), [], added);
+
+  return { content: stringifySections(target), added };
+}
+
+function normalizeTitle(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function mergeChildren(
+  target: MarkdownSection,
+  source: MarkdownSection,
+  path: string[],
+  added: string[],
+): void {
+  const matched = new Set<MarkdownSection>();
+  let cursor = 0;
+
+  for (const child of source.children) {
+    const index = target.children.findIndex(
+      candidate =>
+        !matched.has(candidate) && normalizeTitle(candidate.title) === normalizeTitle(child.title),
+    );
+
+    if (index !== -1) {
+      const match = target.children[index];
+      matched.add(match);
+      mergeChildren(match, child, [...path, child.title], added);
+      cursor = Math.max(cursor, index + 1);
+      continue;
+    }
+
+    // Separate the new section from whatever precedes it by a blank line
+    const previous = cursor > 0 ? lastSection(target.children[cursor - 1]) : target;
+    ensureTrailingBlankLine(previous);
+
+    const inserted = cloneSection(child);
+    target.children.splice(cursor, 0, inserted);
+    matched.add(inserted);
+    cursor++;
+    added.push([...path, child.title].join(' > '));
+
+    if (cursor < target.children.length) {
+      ensureTrailingBlankLine(lastSection(inserted));
+    }
+  }
+}
+
+function lastSection(section: MarkdownSection): MarkdownSection {
+  const children = section.children;
+  return children.length > 0 ? lastSection(children[children.length - 1]) : section;
+}
+
+function ensureTrailingBlankLine(section: MarkdownSection): void {
+  const { lines } = section;
+  // An empty root means the document starts with a heading, nothing to separate
+  if (lines.length > 0 && lines[lines.length - 1].trim() !== '') {
+    lines.push('');
+  }
+}
+
+function cloneSection(section: MarkdownSection): MarkdownSection {
+  return { ...section, lines: [...section.lines], children: section.children.map(cloneSection) };
+}
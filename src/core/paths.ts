@@ -0,0 +1,54 @@
+import path from 'path';
+import { ProjectConfig } from '../types';
+
+/**
+ * Absolute locations of every directory Mementor reads from or writes to.
+ * @interface ProjectPaths
+ * @property {string} root - Project root directory
+ * @property {string} docsDir - Directory holding the context documents
+ * @property {string} snapshotsDir - Directory holding documentation snapshots
+ * @property {string} sessionsDir - Directory holding AI session records
+ * @property {string} templatesDir - Directory holding project templates
+ */
+export interface ProjectPaths {
+  root: string;
+  docsDir: string;
+  snapshotsDir: string;
+  sessionsDir: string;
+  templatesDir: string;
+}
+
+/**
+ * Resolves the project's directory layout from its configuration.
+ * Relative paths in the configuration are resolved against the project root;
+ * `snapshotsDir` and `sessionsDir` default to folders inside `docsDir`.
+ * @param {ProjectConfig} config - Project configuration
+ * @param {string} [root] - Project root directory
+ * @returns {ProjectPaths} Absolute project paths
+ */
+export function resolvePaths(config: ProjectConfig, root: string = process.cwd()): ProjectPaths {
+  const docsDir = path.resolve(root, config.docsDir);
+
+  return {
+    root,
+    docsDir,
+    snapshotsDir: config.snapshotsDir
+      ? path.resolve(root, config.snapshotsDir)
+      : path.join(docsDir, 'snapshots'),
+    sessionsDir: config.sessionsDir
+      ? path.resolve(root, config.sessionsDir)
+      : path.join(docsDir, 'ai_sessions'),
+    templatesDir: path.resolve(root, config.templatesDir),
+  };
+}
+
+/**
+ * Returns whether `target` is `dir` itself or somewhere inside it.
+ * @param {string} dir - Directory to test against
+ * @param {string} target - Path to test
+ * @returns {boolean} True when `target` lies within `dir`
+ */
+export function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -0,0 +1,84 @@
+/**
+ * Finds the sections of generated documents that still hold the placeholder bullets of
+ * their template, such as "List major components", instead of real content.
+ */
+
+import { parseSections, MarkdownSection } from './markdown-sections';
+
+/**
+ * A section that still contains placeholder bullets from its template.
+ * @interface PlaceholderSection
+ * @property {string} title - Heading path of the section, e.g. `Architecture > Storage`
+ * @property {number} line - Line number of the heading, starting at 1
+ * @property {string[]} placeholders - The placeholder bullets left in the section
+ * @property {boolean} empty - Whether the section holds nothing but placeholders
+ */
+export interface PlaceholderSection {
+  title: string;
+  line: number;
+  placeholders: string[];
+  empty: boolean;
+}
+
+const BULLET = /^\s*[-*+]\s+(?!\[[ xX]\])(.+)$/;
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').replace(/[.:]$/, '').toLowerCase();
+}
+
+/**
+ * Collects the static bullets of a template, the text a document starts with before anyone
+ * fills it in. Bullets with mustache tags or inline code are generated or meant to stay.
+ * @param {string} template - Mustache template source
+ * @returns {Set<string>} Normalized bullet texts
+ */
+export function templatePlaceholders(template: string): Set<string> {
+  const placeholders = new Set<string>();
+  for (const line of template.split('\n')) {
+    const bullet = line.match(BULLET);
+    if (bullet && !bullet[1].includes('{{') && !bullet[1].includes('`')) {
+      placeholders.add(normalize(bullet[1]));
+    }
+  }
+  return placeholders;
+}
+
+/**
+ * Lists the sections of a document that still contain placeholder bullets. Only the text
+ * directly below each heading is checked, not its subsections.
+ * @param {string} content - Markdown document
+ * @param {Set<string>} placeholders - Placeholder bullets, see `templatePlaceholders`
+ * @returns {PlaceholderSection[]} Sections in document order
+ */
+export function findPlaceholderSections(
+  content: string,
+  placeholders: Set<string>,
+): PlaceholderSection[] {
+  const results: PlaceholderSection[] = [];
+  if (placeholders.size === 0) return results;
+  let line = 1;
+
+  const visit = (section: MarkdownSection, titles: string[]): void => {
+    const start = line;
+    line += section.lines.length;
+
+    if (section.level > 0) {
+      const body = section.lines.slice(1).filter(text => text.trim() !== '');
+      const found = body
+        .map(text => text.match(BULLET)?.[1])
+        .filter((text): text is string => !!text && placeholders.has(normalize(text)));
+      if (found.length > 0) {
+        results.push({
+          title: titles.join(' > '),
+          line: start,
+          placeholders: found.map(text => text.trim()),
+          empty: found.length === body.length,
+        });
+      }
+    }
+    section.children.forEach(child => visit(child, [...titles, child.title]));
+  };
+  visit(parseSections(content), []);
+
+  return results;
+}
@@ -0,0 +1,127 @@
+import {
+  countSyllables,
+  measureReadability,
+  measureSectionReadability,
+  round,
+} from './readability';
+
+const dense =
+  'Comprehensive organizational interdependencies necessitate extraordinarily sophisticated ' +
+  'infrastructural considerations regarding institutionalized administrative responsibilities.';
+
+describe('countSyllables', () => {
+  it('counts vowel groups, ignoring a silent final e', () => {
+    expect(countSyllables('the')).toBe(1);
+    expect(countSyllables('snapshot')).toBe(2);
+    expect(countSyllables('make')).toBe(1);
+    expect(countSyllables('documentation')).toBe(5);
+    expect(countSyllables('rhythm')).toBe(1);
+  });
+});
+
+describe('measureReadability', () => {
+  it('scores plain prose with the Flesch formulas', () => {
+    expect(measureReadability('The cat sat on the mat. It was a good day.')).toEqual({
+      words: 11,
+      sentences: 2,
+      syllables: 11,
+      paragraphs: 1,
+      readingEase: 100,
+      gradeLevel: 0,
+      avgSentenceLength: 5.5,
+      longestSentence: 6,
+      avgParagraphLength: 2,
+    });
+  });
+
+  it('rates long sentences of long words as hard to read', () => {
+    const stats = measureReadability(dense);
+
+    expect(stats.readingEase).toBe(0);
+    expect(stats.gradeLevel).toBeGreaterThan(30);
+  });
+
+  it('leaves out code, tables, headings and front matter', () => {
+    const content = [
+      '---',
+      'title: Notes',
+      '---',
+      '# Notes',
+      '',
+      'Run the `mementor snapshot --label release` command.',
+      '',
+      '```ts',
+      'const value = computeSomethingExtraordinarilyComplicated();',
+      '```',
+      '',
+      '| Column | Other |',
+      '| --- | --- |',
+      '| a | b |',
+    ].join('\n');
+
+    expect(measureReadability(content)).toMatchObject({ words: 3, sentences: 1, paragraphs: 1 });
+  });
+
+  it('counts every list item as a sentence and abbreviations as part of one', () => {
+    const stats = measureReadability('- Add tests\n- Ship it, e.g. on Friday\n');
+
+    expect(stats).toMatchObject({ sentences: 2, paragraphs: 1, longestSentence: 5 });
+  });
+
+  it('returns zeros without prose', () => {
+    expect(measureReadability('# Title\n\n```\ncode\n```\n')).toMatchObject({
+      words: 0,
+      readingEase: 0,
+      gradeLevel: 0,
+    });
+  });
+});
+
+describe('measureSectionReadability', () => {
+  it('measures each section without its subsections and flags the hard ones', () => {
+    const content = [
+      '# Guide',
+      '',
+      'Short and plain.',
+      '',
+      '## Architecture',
+      '',
+      `${dense} ${dense}`,
+      '',
+      '### Storage',
+      '',
+      'Files go in a folder.',
+    ].join('\n');
+
+    expect(
+      measureSectionReadability(content).map(({ title, line, stats, difficult }) => [
+        title,
+        line,
+        stats.words,
+        difficult,
+      ]),
+    ).toEqual([
+      ['Guide', 1, 3, false],
+      ['Guide > Architecture', 5, 24, true],
+      ['Guide > Architecture > Storage', 9, 5, false],
+    ]);
+  });
+
+  it('does not flag short sections or sections within the grade level', () => {
+    const content = `# Short\n\n${dense}\n\n# Long\n\n${dense} ${dense}\n`;
+
+    expect(measureSectionReadability(content).map(section => section.difficult)).toEqual([
+      false,
+      true,
+    ]);
+    expect(measureSectionReadability(content, 100).some(section => section.difficult)).toBe(false);
+  });
+});
+
+describe('round', () => {
+  it('rounds to one decimal', () => {
+    expect(round(0.1 + 0.2)).toBe(0.3);
+    expect(round(-1.25)).toBe(-1.2);
+    expect(round(7)).toBe(7);
+  });
+});
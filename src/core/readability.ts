@@ -0,0 +1,276 @@
+/**
+ * Scores how easy the prose of markdown documents is to read with the Flesch reading ease
+ * and Flesch-Kincaid grade level formulas. Code, front matter and tables are not prose and
+ * are left out.
+ */
+
+import { parseSections, MarkdownSection } from './markdown-sections';
+
+/**
+ * Grade level above which a section is considered hard to read, roughly the end of high school.
+ */
+export const DEFAULT_MAX_GRADE_LEVEL = 12;
+
+/**
+ * Sections with fewer words are never flagged, a single sentence says too little about them.
+ */
+const MIN_FLAGGED_WORDS = 20;
+
+/**
+ * Readability of a piece of prose.
+ * @interface ReadabilityStats
+ * @property {number} words - Number of words
+ * @property {number} sentences - Number of sentences, every list item counts as one
+ * @property {number} syllables - Estimated number of syllables
+ * @property {number} paragraphs - Number of paragraphs and lists
+ * @property {number} readingEase - Flesch reading ease from 0 (very hard) to 100 (very easy),
+ *   0 when there is no prose
+ * @property {number} gradeLevel - Flesch-Kincaid grade level, the US school grade needed to
+ *   understand the text
+ * @property {number} avgSentenceLength - Average number of words per sentence
+ * @property {number} longestSentence - Number of words in the longest sentence
+ * @property {number} avgParagraphLength - Average number of sentences per paragraph
+ */
+export interface ReadabilityStats {
+  words: number;
+  sentences: number;
+  syllables: number;
+  paragraphs: number;
+  readingEase: number;
+  gradeLevel: number;
+  avgSentenceLength: number;
+  longestSentence: number;
+  avgParagraphLength: number;
+}
+
+/**
+ * Readability of the text directly below a heading, without its subsections.
+ * @interface SectionReadability
+ * @property {string} title - Heading path of the section, e.g. `Architecture > Storage`
+ * @property {number} line - Line number of the heading, starting at 1
+ * @property {ReadabilityStats} stats - Readability of the section's prose
+ * @property {boolean} difficult - Whether the grade level exceeds the threshold
+ */
+export interface SectionReadability {
+  title: string;
+  line: number;
+  stats: ReadabilityStats;
+  difficult: boolean;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^#{1,6}\s/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const WORD = /[\p{L}\p{N}]+(?:['’.-][\p{L}\p{N}]+)*/gu;
+// Abbreviations whose period does not end a sentence
+const ABBREVIATION = /\b(?:e\.g|i\.e|vs|cf|approx)\.$/i;
+
+/**
+ * Rounds a value to the one decimal readability metrics are reported with.
+ */
+export function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Removes markdown syntax that is not read aloud: code spans, images, link targets, URLs,
+ * HTML tags and emphasis markers.
+ */
+function plainText(line: string): string {
+  return line
+    .replace(/(`+)[\s\S]*?\1/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\b[a-z][a-z0-9+.-]*:\/\/\S+/gi, ' ')
+    .replace(/[*_~]+/g, '');
+}
+
+/**
+ * Drops the front matter, code blocks, tables, headings and HTML comments of a document.
+ * @returns The remaining lines, with prose blocks separated by empty lines
+ */
+function proseLines(content: string): string[] {
+  const lines = content.replace(/<!--[\s\S]*?-->/g, '').split('\n');
+  const prose: string[] = [];
+  let fence: string | null = null;
+  let start = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---');
+    if (end !== -1) start = end + 1;
+  }
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index];
+    const fenceMatch = line.match(FENCE);
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (fenceMatch[1] === fence) fence = null;
+      prose.push('');
+      continue;
+    }
+    if (fence) continue;
+
+    // A table is its header row, the delimiter row and the rows up to the next blank line
+    if (line.includes('|') && TABLE_DELIMITER.test(lines[index + 1] ?? '')) {
+      while (index + 1 < lines.length && lines[index + 1].trim() !== '') index++;
+      prose.push('');
+      continue;
+    }
+
+    if (HEADING.test(line) || RULE.test(line)) {
+      prose.push('');
+      continue;
+    }
+    prose.push(line.replace(/^\s*(>\s?)+/, ''));
+  }
+
+  return prose;
+}
+
+/**
+ * Splits prose into paragraphs of sentences. Every list item is a sentence of its own, even
+ * without a closing period.
+ */
+function paragraphs(content: string): string[][] {
+  const result: string[][] = [];
+  let units: string[] = [];
+
+  const flush = (): void => {
+    const sentences = units.flatMap(splitSentences);
+    if (sentences.length > 0) result.push(sentences);
+    units = [];
+  };
+
+  for (const line of proseLines(content)) {
+    if (line.trim() === '') {
+      flush();
+    } else if (LIST_ITEM.test(line) || units.length === 0) {
+      units.push(plainText(line.replace(LIST_ITEM, '')));
+    } else {
+      units[units.length - 1] += ' ' + plainText(line);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let current = '';
+  for (const part of text.split(/(?<=[.!?])\s+/)) {
+    current = current ? `${current} ${part}` : part;
+    if (!ABBREVIATION.test(current)) {
+      sentences.push(current);
+      current = '';
+    }
+  }
+  if (current) sentences.push(current);
+
+  return sentences.filter(sentence => countWords(sentence) > 0);
+}
+
+function countWords(text: string): number {
+  return text.match(WORD)?.length ?? 0;
+}
+
+/**
+ * Estimates the number of syllables of an English word by counting its vowel groups.
+ * @param {string} word - A single word
+ * @returns {number} Estimated syllables, at least 1
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) return 1;
+
+  const groups = letters
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '')
+    .match(/[aeiouy]{1,2}/g);
+  return Math.max(1, groups?.length ?? 0);
+}
+
+/**
+ * Measures the readability of the prose in a markdown document. Front matter, fenced code
+ * blocks, tables, headings and inline code are ignored.
+ * @param {string} content - Markdown content
+ * @returns {ReadabilityStats} Readability scores and sentence and paragraph length statistics
+ */
+export function measureReadability(content: string): ReadabilityStats {
+  const blocks = paragraphs(content);
+  const sentences = blocks.flat();
+  const words = sentences.flatMap(sentence => sentence.match(WORD) ?? []);
+  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
+
+  if (words.length === 0) {
+    return {
+      words: 0,
+      sentences: 0,
+      syllables: 0,
+      paragraphs: 0,
+      readingEase: 0,
+      gradeLevel: 0,
+      avgSentenceLength: 0,
+      longestSentence: 0,
+      avgParagraphLength: 0,
+    };
+  }
+
+  const wordsPerSentence = words.length / sentences.length;
+  const syllablesPerWord = syllables / words.length;
+
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    syllables,
+    paragraphs: blocks.length,
+    readingEase: round(
+      Math.min(100, Math.max(0, 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord)),
+    ),
+    gradeLevel: round(Math.max(0, 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59)),
+    avgSentenceLength: round(wordsPerSentence),
+    longestSentence: Math.max(...sentences.map(countWords)),
+    avgParagraphLength: round(sentences.length / blocks.length),
+  };
+}
+
+/**
+ * Measures the readability of every section that contains prose and flags the ones above
+ * a grade level. Each section is measured without its subsections, and sections of fewer
+ * than 20 words are never flagged.
+ * @param {string} content - Markdown content
+ * @param {number} [maxGradeLevel] - Highest acceptable Flesch-Kincaid grade level
+ * @returns {SectionReadability[]} Sections in document order
+ */
+export function measureSectionReadability(
+  content: string,
+  maxGradeLevel: number = DEFAULT_MAX_GRADE_LEVEL,
+): SectionReadability[] {
+  const results: SectionReadability[] = [];
+  let line = 1;
+
+  const visit = (section: MarkdownSection, titles: string[]): void => {
+    const start = line;
+    line += section.lines.length;
+
+    if (section.level > 0) {
+      const stats = measureReadability(section.lines.slice(1).join('\n'));
+      if (stats.words > 0) {
+        results.push({
+          title: titles.join(' > '),
+          line: start,
+          stats,
+          difficult: stats.words >= MIN_FLAGGED_WORDS && stats.gradeLevel > maxGradeLevel,
+        });
+      }
+    }
+    section.children.forEach(child => visit(child, [...titles, child.title]));
+  };
+  visit(parseSections(content), []);
+
+  return results;
+}
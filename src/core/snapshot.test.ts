@@ -0,0 +1,40 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ProjectConfig } from '../types';
+import { getDefaultConfig } from './config';
+import { generateSnapshotIfChanged } from './snapshot';
+
+let root: string;
+let config: ProjectConfig;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-snapshot-'));
+  config = { ...getDefaultConfig(root), docsDir: path.join(root, 'docs', 'context') };
+  await fs.mkdir(config.docsDir, { recursive: true });
+  await fs.writeFile(path.join(config.docsDir, 'progress.md'), '# Progress\n');
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('generateSnapshotIfChanged', () => {
+  it('records the trigger and session of the snapshot', async () => {
+    const snapshot = await generateSnapshotIfChanged(config, 'interval', 'session-1');
+
+    expect(snapshot).toMatchObject({ trigger: 'interval', sessionId: 'session-1' });
+  });
+
+  it('returns null until a document changes', async () => {
+    await generateSnapshotIfChanged(config);
+    expect(await generateSnapshotIfChanged(config)).toBeNull();
+
+    await fs.appendFile(path.join(config.docsDir, 'progress.md'), '\n- Shipped\n');
+    expect((await generateSnapshotIfChanged(config))?.changes).toEqual([
+      expect.objectContaining({ file: 'progress.md', type: 'modified' }),
+    ]);
+  });
+});
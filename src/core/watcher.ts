@@ -1,7 +1,12 @@
 import * as chokidar from 'chokidar';
+import path from 'path';
 import { ProjectConfig } from '../types';
-import { generateSnapshot } from './snapshot';
+import { ProjectPaths, isWithin, resolvePaths } from './paths';
+import { generateSnapshotIfChanged } from './snapshot';
 import { updateDocumentation } from './documentation';
+import { reportPlannedChanges } from './file-plan';
+import { documentsCovering } from '../services/staleness';
+import { readCurrentSessionId } from './ai/context-manager';
 
 /**
  * Function type for handling file changes.
@@ -18,19 +23,21 @@ interface FileHandler {
  * @class ProjectWatcher
  * @property {chokidar.FSWatcher} watcher - The file system watcher instance
  * @property {ProjectConfig} config - Project configuration
- * @property {string[]} watchPatterns - Glob patterns for files to watch
- * @property {string[]} ignoredPatterns - Glob patterns for files to ignore
+ * @property {ProjectPaths} paths - Resolved project directories
+ * @property {string[]} sourceExtensions - Extensions of source files to watch
+ * @property {string[]} ignoredDirectories - Directory names that are never watched
+ * @property {NodeJS.Timeout} [snapshotTimer] - Timer taking the scheduled snapshots
+ * @property {NodeJS.Timeout} [sessionSnapshotTimer] - Timer taking the snapshots of AI sessions
  */
 export class ProjectWatcher {
   private watcher: chokidar.FSWatcher;
   private config: ProjectConfig;
-  private readonly watchPatterns = ['**/*.{ts,tsx,js,jsx}', 'docs/context/*.md'];
-  private readonly ignoredPatterns = [
-    '**/node_modules/**',
-    '**/dist/**',
-    '**/build/**',
-    '**/.git/**',
-  ];
+  private paths: ProjectPaths;
+  private readonly sourceExtensions = ['.ts', '.tsx', '.js', '.jsx'];
+  private readonly ignoredDirectories = ['node_modules', 'dist', 'build', '.git'];
+  private snapshotTimer?: NodeJS.Timeout;
+  private sessionSnapshotTimer?: NodeJS.Timeout;
+  private snapshotRunning = false;
 
   /**
    * Creates a new ProjectWatcher instance.
@@ -38,8 +45,9 @@ export class ProjectWatcher {
    */
   constructor(config: ProjectConfig) {
     this.config = config;
-    this.watcher = chokidar.watch(this.watchPatterns, {
-      ignored: this.ignoredPatterns,
+    this.paths = resolvePaths(config);
+    this.watcher = chokidar.watch(this.paths.root, {
+      ignored: (filepath, stats) => this.isIgnored(filepath, stats),
       persistent: true,
       ignoreInitial: true,
       awaitWriteFinish: {
@@ -52,7 +60,45 @@ export class ProjectWatcher {
   }
 
   /**
-   * Handles file changes by generating a new snapshot and updating documentation.
+   * Decides whether a path should be skipped. Source files anywhere in the project and
+   * markdown documents directly inside the docs directory are watched; snapshots and
+   * session records are written by Mementor itself and never trigger updates.
+   * @private
+   * @param {string} filepath - Path reported by the watcher
+   * @param {Stats} [stats] - File stats, when already known
+   * @returns {boolean} True when the path should be ignored
+   */
+  private isIgnored(filepath: string, stats?: { isFile(): boolean }): boolean {
+    const relative = path.relative(this.paths.root, filepath);
+    if (relative.split(path.sep).some(part => this.ignoredDirectories.includes(part))) {
+      return true;
+    }
+    if (isWithin(this.paths.snapshotsDir, filepath) || isWithin(this.paths.sessionsDir, filepath)) {
+      return true;
+    }
+    if (!stats?.isFile()) {
+      return false;
+    }
+    if (path.extname(filepath) === '.md') {
+      return path.dirname(filepath) !== this.paths.docsDir;
+    }
+    return !this.sourceExtensions.includes(path.extname(filepath));
+  }
+
+  /**
+   * Whether document changes are left to the interval snapshots instead of each taking one.
+   * @private
+   * @param {string} filepath - Path reported by the watcher
+   * @returns {boolean} True for documents while interval snapshots are scheduled
+   */
+  private isLeftToInterval(filepath: string): boolean {
+    const { autoSnapshot, snapshotInterval } = this.config.features;
+    return path.extname(filepath) === '.md' && autoSnapshot && snapshotInterval > 0;
+  }
+
+  /**
+   * Handles file changes by generating a new snapshot, when a document changed, and updating
+   * documentation.
    * @private
    * @param {string} filepath - Path to the changed file
    * @returns {Promise<void>}
@@ -60,14 +106,19 @@ export class ProjectWatcher {
    */
   private handleFileChange: FileHandler = async (filepath: string): Promise<void> => {
     console.warn(`File ${filepath} has been changed`);
+    if (this.isLeftToInterval(filepath)) return;
 
     try {
-      const snapshot = await generateSnapshot(this.config);
+      const snapshot = await generateSnapshotIfChanged(this.config);
+      if (path.extname(filepath) !== '.md') {
+        await this.reportCoveringDocuments(filepath);
+      }
       await updateDocumentation(filepath, snapshot, this.config);
 
       if (this.config.git.enabled && this.config.git.autoCommit) {
         // Git operations will be handled by git.ts
       }
+      reportPlannedChanges(this.paths.root);
     } catch (error) {
       if (error instanceof Error) {
         console.error('Error handling file change:', error.message);
@@ -84,9 +135,12 @@ export class ProjectWatcher {
 
   private handleFileDelete: FileHandler = async (filepath: string): Promise<void> => {
     console.warn(`File ${filepath} has been removed`);
+    if (this.isLeftToInterval(filepath)) return;
+
     try {
-      const snapshot = await generateSnapshot(this.config);
+      const snapshot = await generateSnapshotIfChanged(this.config);
       await updateDocumentation(filepath, snapshot, this.config);
+      reportPlannedChanges(this.paths.root);
     } catch (error) {
       if (error instanceof Error) {
         console.error('Error handling file deletion:', error.message);
@@ -96,6 +150,24 @@ export class ProjectWatcher {
     }
   };
 
+  /**
+   * Lists the documents that cover a changed source file and how stale they are, so they
+   * can be updated together with the code.
+   * @private
+   * @param {string} filepath - Path to the changed source file
+   */
+  private async reportCoveringDocuments(filepath: string): Promise<void> {
+    for (const doc of await documentsCovering(this.config, filepath)) {
+      const behind =
+        doc.score > 0
+          ? `, ${doc.commits} commit(s) to the code it covers since its last update (stale score ${doc.score})`
+          : '';
+      console.warn(
+        `📚 ${doc.document} covers ${path.relative(this.paths.root, filepath)}${behind}`,
+      );
+    }
+  }
+
   /**
    * Sets up file system watchers with event handlers.
    * @private
@@ -114,6 +186,68 @@ export class ProjectWatcher {
       });
   }
 
+  /**
+   * Takes an interval snapshot when a document changed since the previous snapshot, tagged
+   * with the active AI session, if any. A slow snapshot must not overlap with the next one.
+   * @private
+   * @param {boolean} [sessionOnly] - Only take the snapshot while an AI session is active
+   */
+  private async takeIntervalSnapshot(sessionOnly: boolean = false): Promise<void> {
+    if (this.snapshotRunning) return;
+    this.snapshotRunning = true;
+    try {
+      const sessionId = await this.activeSessionId();
+      if (sessionOnly && !sessionId) return;
+
+      const snapshot = await generateSnapshotIfChanged(this.config, 'interval', sessionId);
+      if (snapshot) {
+        reportPlannedChanges(this.paths.root);
+      }
+    } catch (error) {
+      console.error(
+        'Error taking interval snapshot:',
+        error instanceof Error ? error.message : error,
+      );
+    } finally {
+      this.snapshotRunning = false;
+    }
+  }
+
+  /**
+   * Returns the AI session snapshots should be tagged with, when `ai.autoSnapshot` is enabled.
+   * @private
+   * @returns {Promise<string | undefined>} Id of the active session
+   */
+  private async activeSessionId(): Promise<string | undefined> {
+    const { enabled, autoSnapshot } = this.config.ai;
+    if (!enabled || !autoSnapshot) return undefined;
+    return (await readCurrentSessionId(this.paths.docsDir)) ?? undefined;
+  }
+
+  /**
+   * Takes a snapshot every `features.snapshotInterval` milliseconds while the watcher runs,
+   * when `features.autoSnapshot` is enabled, and every `ai.snapshotInterval` milliseconds
+   * while an AI session is active. Snapshots are skipped when no document changed.
+   * @private
+   */
+  private scheduleSnapshots(): void {
+    const { autoSnapshot, snapshotInterval } = this.config.features;
+    if (autoSnapshot && snapshotInterval > 0) {
+      this.snapshotTimer = setInterval(() => this.takeIntervalSnapshot(), snapshotInterval);
+      // The file watcher keeps the process alive, the timers should not
+      this.snapshotTimer.unref();
+    }
+
+    const sessionInterval = this.config.ai.snapshotInterval;
+    if (sessionInterval > 0) {
+      this.sessionSnapshotTimer = setInterval(
+        () => this.takeIntervalSnapshot(true),
+        sessionInterval,
+      );
+      this.sessionSnapshotTimer.unref();
+    }
+  }
+
   public async start(): Promise<void> {
     console.warn('Starting project watcher...');
     try {
@@ -121,6 +255,7 @@ export class ProjectWatcher {
       await new Promise<void>(resolve => {
         this.watcher.on('ready', () => {
           console.warn('Watcher ready, monitoring for changes...');
+          this.scheduleSnapshots();
           resolve();
         });
       });
@@ -134,6 +269,8 @@ export class ProjectWatcher {
 
   public async stop(): Promise<void> {
     console.warn('Stopping project watcher...');
+    clearInterval(this.snapshotTimer);
+    clearInterval(this.sessionSnapshotTimer);
     try {
       await this.watcher.close();
       console.warn('Watcher stopped successfully');
@@ -0,0 +1,228 @@
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import { HealthReport, buildHealthReport } from './healthReport';
+import { SnapshotStore } from './snapshotStore';
+
+export type CheckRule =
+  | 'completion'
+  | 'snapshot-age'
+  | 'broken-links'
+  | 'unfilled-sections'
+  | 'active-context';
+
+/**
+ * A single problem found by a rule.
+ * @property file - Path relative to the project root, when the problem is in a file
+ */
+export interface CheckFailure {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface CheckResult {
+  rule: CheckRule;
+  status: 'passed' | 'failed' | 'skipped';
+  /** Summary of the outcome, or why the rule was skipped */
+  message: string;
+  failures: CheckFailure[];
+}
+
+export interface CheckReport {
+  passed: boolean;
+  checkedAt: string;
+  results: CheckResult[];
+}
+
+export interface CheckOptions {
+  /** Git ref to find changed source files against, e.g. `origin/main` */
+  base?: string;
+}
+
+const ACTIVE_CONTEXT = 'active_context.md';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function result(rule: CheckRule, failures: CheckFailure[], passed: string): CheckResult {
+  return failures.length > 0
+    ? { rule, status: 'failed', message: `${failures.length} problem(s)`, failures }
+    : { rule, status: 'passed', message: passed, failures };
+}
+
+function skipped(rule: CheckRule, message: string): CheckResult {
+  return { rule, status: 'skipped', message, failures: [] };
+}
+
+function checkCompletion(config: ProjectConfig, report: HealthReport, docs: string): CheckResult {
+  const { minCompletion } = config.health;
+  if (minCompletion <= 0) return skipped('completion', 'health.minCompletion is 0');
+
+  const failures = report.documents
+    .filter(doc => doc.metrics.completion_percentage < minCompletion)
+    .map(doc => ({
+      message: `${doc.metrics.completion_percentage}% of tasks are completed, at least ${minCompletion}% required`,
+      file: path.posix.join(docs, doc.path),
+    }));
+  return result('completion', failures, `Every document has ${minCompletion}% of tasks completed`);
+}
+
+async function checkSnapshotAge(config: ProjectConfig, now: Date): Promise<CheckResult> {
+  const { maxSnapshotAgeDays } = config.health;
+  if (maxSnapshotAgeDays <= 0) return skipped('snapshot-age', 'health.maxSnapshotAgeDays is 0');
+
+  const entries = await new SnapshotStore(resolvePaths(config).snapshotsDir).readIndex();
+  const latest = entries[entries.length - 1];
+  if (!latest) {
+    return result('snapshot-age', [{ message: 'No snapshot has been taken yet' }], '');
+  }
+
+  const age = Math.floor((now.getTime() - new Date(latest.createdAt).getTime()) / DAY_MS);
+  const failures =
+    age > maxSnapshotAgeDays
+      ? [
+          {
+            message: `The latest snapshot is ${age} day(s) old, at most ${maxSnapshotAgeDays} allowed`,
+          },
+        ]
+      : [];
+  return result('snapshot-age', failures, `The latest snapshot is ${age} day(s) old`);
+}
+
+function checkBrokenLinks(config: ProjectConfig, report: HealthReport, docs: string): CheckResult {
+  if (config.health.allowBrokenLinks) {
+    return skipped('broken-links', 'health.allowBrokenLinks is true');
+  }
+
+  const failures = report.documents.flatMap(doc =>
+    doc.brokenLinks.map(link => ({
+      message: `Broken link ${link.target || `[${link.reference}]`}: ${link.reason}`,
+      file: path.posix.join(docs, doc.path),
+      line: link.line,
+    })),
+  );
+  return result('broken-links', failures, 'No broken links');
+}
+
+function checkUnfilledSections(
+  config: ProjectConfig,
+  report: HealthReport,
+  docs: string,
+): CheckResult {
+  if (config.health.allowUnfilledSections) {
+    return skipped('unfilled-sections', 'health.allowUnfilledSections is true');
+  }
+
+  const failures = report.documents.flatMap(doc =>
+    doc.placeholders.map(section => ({
+      message: `${section.title} still holds template placeholders: ${section.placeholders.join('; ')}`,
+      file: path.posix.join(docs, doc.path),
+      line: section.line,
+    })),
+  );
+  return result('unfilled-sections', failures, 'Every template section is filled in');
+}
+
+/**
+ * Lists the files changed since `base`, including uncommitted and untracked ones, relative
+ * to the project root.
+ * @returns The files, or null outside a git repository or before the first commit
+ */
+async function changedFiles(root: string, base?: string): Promise<string[] | null> {
+  const git = simpleGit(root);
+  try {
+    if (!(await git.checkIsRepo())) return null;
+    await git.revparse(['HEAD']);
+  } catch {
+    // No commits yet, or git is not available
+    return null;
+  }
+
+  let committed = '';
+  if (base) {
+    try {
+      committed = await git.diff(['--name-only', '--relative', `${base}...HEAD`]);
+    } catch {
+      throw new Error(`Unknown git ref "${base}"`);
+    }
+  }
+  const uncommitted = await git.diff(['--name-only', '--relative', 'HEAD']);
+  const untracked = await git.raw(['ls-files', '--others', '--exclude-standard']);
+
+  return [
+    ...new Set(
+      [committed, uncommitted, untracked].flatMap(list => list.split('\n').filter(Boolean)),
+    ),
+  ];
+}
+
+async function checkActiveContext(
+  config: ProjectConfig,
+  docs: string,
+  options: CheckOptions,
+): Promise<CheckResult> {
+  const { sourceDirs } = config.health;
+  if (sourceDirs.length === 0) return skipped('active-context', 'health.sourceDirs is empty');
+
+  const { root } = resolvePaths(config);
+  const changed = await changedFiles(root, options.base);
+  if (!changed) return skipped('active-context', 'Not a git repository with commits');
+
+  const inside = (file: string, dir: string): boolean => {
+    const relative = path.posix.relative(path.posix.normalize(dir), file);
+    return !relative.startsWith('..') && !path.posix.isAbsolute(relative);
+  };
+  const sources = changed.filter(file => sourceDirs.some(dir => inside(file, dir)));
+  const contextFile = path.posix.join(docs, ACTIVE_CONTEXT);
+
+  if (sources.length === 0) {
+    return result('active-context', [], `No changes in ${sourceDirs.join(', ')}`);
+  }
+  if (changed.includes(contextFile)) {
+    return result('active-context', [], `${contextFile} was updated with the source changes`);
+  }
+
+  const listed = sources.slice(0, 5).join(', ') + (sources.length > 5 ? ', …' : '');
+  return result(
+    'active-context',
+    [
+      {
+        message: `${sources.length} source file(s) changed without an update of ${ACTIVE_CONTEXT}: ${listed}`,
+        file: contextFile,
+      },
+    ],
+    '',
+  );
+}
+
+/**
+ * Evaluates the rules configured under `health` against the documents in the docs directory.
+ * A rule that is disabled or cannot run, e.g. the active context rule outside git, is skipped.
+ * @param config - Project configuration
+ * @param options - Git ref changes are compared against, the working tree by default
+ */
+export async function runHealthChecks(
+  config: ProjectConfig,
+  options: CheckOptions = {},
+): Promise<CheckReport> {
+  const now = new Date();
+  const { root, docsDir } = resolvePaths(config);
+  // Files are reported relative to the project root so CI can annotate them
+  const docs = path.relative(root, docsDir).split(path.sep).join('/');
+  const report = await buildHealthReport(config);
+
+  const results = [
+    checkCompletion(config, report, docs),
+    await checkSnapshotAge(config, now),
+    checkBrokenLinks(config, report, docs),
+    checkUnfilledSections(config, report, docs),
+    await checkActiveContext(config, docs, options),
+  ];
+
+  return {
+    passed: results.every(check => check.status !== 'failed'),
+    checkedAt: now.toISOString(),
+    results,
+  };
+}
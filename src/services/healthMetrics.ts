@@ -0,0 +1,62 @@
+import { HealthMetrics } from './templateRenderer';
+import { LinkReport } from '../core/markdown-links';
+import {
+  DEFAULT_MAX_GRADE_LEVEL,
+  measureReadability,
+  measureSectionReadability,
+} from '../core/readability';
+
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Calculates health metrics for a markdown document. Pass the concatenated content of
+ * several documents to get metrics across all of them.
+ * @param content - Markdown content
+ * @param lastUpdated - When the content was last changed, defaults to now
+ * @param links - Result of checking the document's links, see `analyzeLinks`
+ * @param maxGradeLevel - Grade level above which a section is flagged as difficult
+ */
+export function calculateHealthMetrics(
+  content: string,
+  lastUpdated: Date = new Date(),
+  links?: Pick<LinkReport, 'linkedFiles' | 'broken'>,
+  maxGradeLevel: number = DEFAULT_MAX_GRADE_LEVEL,
+): HealthMetrics {
+  const words = content.split(/\s+/).filter(Boolean).length;
+  const headings = content.match(/^#{1,6}(?=\s)/gm) ?? [];
+  const openTodos = content.match(/^\s*[-*+]\s+\[ \]/gm)?.length ?? 0;
+  const completedTodos = content.match(/^\s*[-*+]\s+\[[xX]\]/gm)?.length ?? 0;
+  const totalTodos = openTodos + completedTodos;
+  const readability = measureReadability(content);
+
+  return {
+    last_updated: lastUpdated.toISOString(),
+    word_count: words,
+    reading_time: Math.ceil(words / WORDS_PER_MINUTE),
+    has_todos: openTodos > 0,
+    todo_count: openTodos,
+    linked_files: links?.linkedFiles ?? [],
+    broken_links:
+      links?.broken.map(link => `${link.target || `[${link.reference}]`} (line ${link.line})`) ??
+      [],
+    completion_percentage:
+      totalTodos > 0 ? Math.round((completedTodos / totalTodos) * 1000) / 10 : 100,
+    section_count: headings.length,
+    section_depth: Math.max(0, ...headings.map(heading => heading.length)),
+    code_blocks: content.match(/```[\s\S]*?```/g)?.length ?? 0,
+    avg_section_length: headings.length > 0 ? Math.round(words / headings.length) : words,
+    readability_score: readability.readingEase,
+    grade_level: readability.gradeLevel,
+    avg_sentence_length: readability.avgSentenceLength,
+    avg_paragraph_length: readability.avgParagraphLength,
+    readability_sections: measureSectionReadability(content, maxGradeLevel).map(section => ({
+      title: section.title,
+      line: section.line,
+      readability_score: section.stats.readingEase,
+      grade_level: section.stats.gradeLevel,
+      avg_sentence_length: section.stats.avgSentenceLength,
+      difficult: section.difficult,
+    })),
+    last_snapshot_delta: 0, // Set when a snapshot is created
+  };
+}
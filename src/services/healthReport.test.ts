@@ -0,0 +1,57 @@
+import { PlaceholderSection } from '../core/placeholders';
+import { HealthMetrics } from './templateRenderer';
+import { calculateHealthMetrics } from './healthMetrics';
+import { scoreDocument } from './healthReport';
+
+const dense =
+  'Comprehensive organizational interdependencies necessitate extraordinarily sophisticated ' +
+  'infrastructural considerations regarding institutionalized administrative responsibilities.';
+
+const prose = '# Guide\n\nRun the tests before you push.\n\n## Setup\n\nInstall Node and npm.\n';
+
+function placeholder(title: string, empty: boolean): PlaceholderSection {
+  return { title, line: 1, placeholders: ['Describe the setup'], empty };
+}
+
+function metrics(content: string, overrides: Partial<HealthMetrics> = {}): HealthMetrics {
+  return { ...calculateHealthMetrics(content), ...overrides };
+}
+
+describe('scoreDocument', () => {
+  it('gives a filled in document without issues full marks', () => {
+    expect(scoreDocument(metrics(prose), [])).toBe(100);
+  });
+
+  it('scores an empty document 0', () => {
+    expect(scoreDocument(metrics(''), [])).toBe(0);
+  });
+
+  it('scores documents without prose on the penalties alone', () => {
+    const table = '# Commands\n\n| Command | Purpose |\n| --- | --- |\n| test | Runs jest |\n';
+
+    expect(scoreDocument(metrics(table), [])).toBe(100);
+    expect(scoreDocument(metrics('Done.'), [])).toBe(100);
+    expect(scoreDocument(metrics(table, { broken_links: ['a.md (line 1)'] }), [])).toBe(95);
+  });
+
+  it('takes 5 points per broken link, up to 20', () => {
+    expect(scoreDocument(metrics(prose, { broken_links: ['a', 'b'] }), [])).toBe(90);
+    expect(scoreDocument(metrics(prose, { broken_links: Array(6).fill('a') }), [])).toBe(80);
+  });
+
+  it('takes up to 20 points for open tasks', () => {
+    expect(scoreDocument(metrics(`${prose}\n- [ ] Write docs\n- [x] Ship\n`), [])).toBe(90);
+  });
+
+  it('takes up to 20 points for the share of sections that are hard to read', () => {
+    expect(scoreDocument(metrics(`${prose}\n## Design\n\n${dense} ${dense}\n`), [])).toBe(93);
+  });
+
+  it('scales the score by the share of sections still holding template placeholders', () => {
+    const sections = [placeholder('Guide', false), placeholder('Guide > Setup', true)];
+
+    // One empty section and one with placeholders left next to real content
+    expect(scoreDocument(metrics(prose), sections)).toBe(25);
+    expect(scoreDocument(metrics(prose), [placeholder('Guide > Setup', true)])).toBe(50);
+  });
+});
@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { glob } from 'glob';
+import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import { BrokenLink, analyzeLinks } from '../core/markdown-links';
+import {
+  PlaceholderSection,
+  findPlaceholderSections,
+  templatePlaceholders,
+} from '../core/placeholders';
+import * as fsPlan from '../core/file-plan';
+import { calculateHealthMetrics } from './healthMetrics';
+import { DocumentStaleness, documentCovers, measureStaleness } from './staleness';
+import { resolveTemplateDirs } from './templatePacks';
+import { HealthMetrics, TemplateRenderer } from './templateRenderer';
+
+/**
+ * Health of a single document.
+ * @property score - From 0 to 100, see `scoreDocument`
+ * @property placeholders - Sections still holding the placeholder bullets of their template
+ * @property staleness - How far the code the document covers has moved on since it changed
+ */
+export interface DocumentHealth {
+  path: string;
+  score: number;
+  metrics: HealthMetrics;
+  placeholders: PlaceholderSection[];
+  brokenLinks: BrokenLink[];
+  staleness?: DocumentStaleness;
+}
+
+export interface HealthReport {
+  generatedAt: string;
+  /** Average score of the documents */
+  score: number;
+  documents: DocumentHealth[];
+}
+
+/**
+ * Scores a document from 0 to 100. The score starts from the share of sections with prose
+ * that are filled in rather than left with template placeholders, then loses up to 20 points
+ * each for broken links, sections flagged as difficult to read and open tasks. A document
+ * without prose sections, e.g. only tables or code, is scored on the penalties alone.
+ */
+export function scoreDocument(metrics: HealthMetrics, placeholders: PlaceholderSection[]): number {
+  const sections = metrics.readability_sections ?? [];
+  const total = Math.max(sections.length, placeholders.length);
+  if (metrics.word_count === 0) return 0;
+
+  const unfilled = placeholders.reduce((sum, section) => sum + (section.empty ? 1 : 0.5), 0);
+  const difficult = sections.filter(section => section.difficult).length;
+  const penalties =
+    Math.min(20, 5 * metrics.broken_links.length) +
+    (sections.length > 0 ? 20 * (difficult / sections.length) : 0) +
+    20 * (1 - metrics.completion_percentage / 100);
+
+  const filled = total > 0 ? 1 - unfilled / total : 1;
+  return Math.round(filled * (100 - penalties));
+}
+
+/**
+ * Loads the placeholder bullets of the template a document was generated from, if any.
+ */
+async function loadPlaceholders(renderer: TemplateRenderer, file: string): Promise<Set<string>> {
+  try {
+    const template = await renderer.resolveTemplate(path.basename(file, '.md'));
+    return templatePlaceholders(await fs.readFile(template, 'utf-8'));
+  } catch {
+    // Not generated from a template
+    return new Set();
+  }
+}
+
+/**
+ * Computes the health metrics and score of every document in the docs directory.
+ */
+export async function buildHealthReport(config: ProjectConfig): Promise<HealthReport> {
+  const { root, docsDir } = resolvePaths(config);
+  const { templateDirs } = await resolveTemplateDirs(config);
+  const renderer = new TemplateRenderer(templateDirs);
+  const files = (await glob('*.md', { cwd: docsDir })).sort();
+
+  const documents: DocumentHealth[] = [];
+  for (const file of files) {
+    const filePath = path.join(docsDir, file);
+    const content = await fsPlan.readFile(filePath);
+    const { mtime } = await fs.stat(filePath);
+    const links = await analyzeLinks(filePath, content);
+    const metrics = calculateHealthMetrics(content, mtime, links, config.health.maxGradeLevel);
+    const placeholders = findPlaceholderSections(content, await loadPlaceholders(renderer, file));
+
+    documents.push({
+      path: file,
+      score: scoreDocument(metrics, placeholders),
+      metrics,
+      placeholders,
+      brokenLinks: links.broken,
+      staleness: await measureStaleness(root, filePath, documentCovers(config, file, content)),
+    });
+  }
+
+  const total = documents.reduce((sum, doc) => sum + doc.score, 0);
+  return {
+    generatedAt: new Date().toISOString(),
+    score: documents.length > 0 ? Math.round(total / documents.length) : 0,
+    documents,
+  };
+}
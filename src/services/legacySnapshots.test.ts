@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { convertLegacySnapshot, findLegacySnapshots } from './legacySnapshots';
+import { SNAPSHOT_FORMAT, SNAPSHOT_FORMAT_VERSION, createSnapshot } from './snapshotStore';
+
+describe('convertLegacySnapshot', () => {
+  it('converts watcher JSON snapshots, naming documents by their title', () => {
+    const legacy = convertLegacySnapshot(
+      'snapshot_old.json',
+      JSON.stringify({
+        timestamp: '2024-05-01T08:30:00.000Z',
+        changes: [{ file: 'progress.md', type: 'modified', description: 'Edited progress.md' }],
+        documents: [{ meta: { title: 'progress' }, content: '# Progress\n' }, {}],
+      }),
+    );
+
+    expect(legacy?.kind).toBe('context-json');
+    expect(legacy?.snapshot).toMatchObject({
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_FORMAT_VERSION,
+      id: '2024-05-01T083000000Z',
+      trigger: 'watch',
+      changes: [{ file: 'progress.md', type: 'modified' }],
+      documents: [
+        { path: 'progress.md', content: '# Progress\n' },
+        { path: 'document_2.md', content: '' },
+      ],
+    });
+  });
+
+  it('converts generator markdown snapshots with their metadata header', () => {
+    const content = [
+      '=== MEMENTOR SNAPSHOT ===',
+      'Created: 2024-05-02T10:00:00.000Z',
+      '- Word Count: 120',
+      '- TODOs: 2',
+      '- Sections: 4',
+      '---',
+      '# Snapshot report',
+    ].join('\n');
+
+    const legacy = convertLegacySnapshot('2024/05/02/snapshot_100000.md', content);
+
+    expect(legacy?.kind).toBe('generator-markdown');
+    expect(legacy?.snapshot).toMatchObject({
+      createdAt: '2024-05-02T10:00:00.000Z',
+      trigger: 'manual',
+      metrics: { word_count: 120, todo_count: 2, has_todos: true, section_count: 4 },
+      documents: [{ path: 'snapshot.md', content: '# Snapshot report' }],
+    });
+  });
+
+  it('takes the date of a generator snapshot from its location without a Created line', () => {
+    const legacy = convertLegacySnapshot(
+      path.join('2024', '05', '02', 'snapshot_134500.md'),
+      '=== MEMENTOR SNAPSHOT ===\n---\nbody',
+    );
+
+    expect(new Date(legacy!.snapshot.createdAt)).toEqual(new Date(2024, 4, 2, 13, 45, 0));
+  });
+
+  it('converts AI session snapshots into the active context document', () => {
+    const legacy = convertLegacySnapshot(
+      'snapshot_2024-05-03T120000000Z.md',
+      '# Active Context\n\nRefactoring the store\n',
+    );
+
+    expect(legacy?.kind).toBe('session-markdown');
+    expect(legacy?.snapshot).toMatchObject({
+      createdAt: '2024-05-03T12:00:00.000Z',
+      trigger: 'ai-session',
+      documents: [
+        { path: 'active_context.md', content: '# Active Context\n\nRefactoring the store\n' },
+      ],
+    });
+  });
+
+  it('upgrades inline snapshots and skips snapshots in the current format', () => {
+    const inline = { ...createSnapshot({ trigger: 'manual', documents: [] }), version: 1 };
+    const current = createSnapshot({ trigger: 'manual', documents: [] });
+
+    expect(convertLegacySnapshot('snapshot_a.json', JSON.stringify(inline))).toMatchObject({
+      kind: 'inline-json',
+      snapshot: { version: SNAPSHOT_FORMAT_VERSION },
+    });
+    expect(convertLegacySnapshot('snapshot_b.json', JSON.stringify(current))).toBeNull();
+  });
+
+  it('rejects snapshots without a usable date', () => {
+    expect(() => convertLegacySnapshot('snapshot_x.json', '{"timestamp":"soon"}')).toThrow(
+      'snapshot has no valid timestamp',
+    );
+    expect(() => convertLegacySnapshot('snapshot_notes.md', 'text')).toThrow(
+      'file name does not contain a snapshot timestamp',
+    );
+  });
+});
+
+describe('findLegacySnapshots', () => {
+  let snapshotsDir: string;
+
+  beforeEach(async () => {
+    snapshotsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-legacy-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(snapshotsDir, { recursive: true, force: true });
+  });
+
+  it('converts every legacy snapshot below the directory and reports the rest', async () => {
+    await fs.mkdir(path.join(snapshotsDir, 'sessions'));
+    await fs.writeFile(
+      path.join(snapshotsDir, 'sessions', 'snapshot_2024-05-03T120000000Z.md'),
+      '# Active Context\n',
+    );
+    await fs.writeFile(path.join(snapshotsDir, 'snapshot_broken.json'), '{');
+    await fs.writeFile(
+      path.join(snapshotsDir, 'snapshot_current.json'),
+      JSON.stringify(createSnapshot({ trigger: 'manual', documents: [] })),
+    );
+
+    const { snapshots, failed } = await findLegacySnapshots(snapshotsDir);
+
+    expect(snapshots.map(legacy => legacy.kind)).toEqual(['session-markdown']);
+    expect(failed.map(({ file }) => path.basename(file))).toEqual(['snapshot_broken.json']);
+  });
+});
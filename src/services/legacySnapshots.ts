@@ -0,0 +1,186 @@
+import path from 'path';
+import { glob } from 'glob';
+import { Snapshot, SnapshotChange } from '../types';
+import { HealthMetrics } from './templateRenderer';
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_FORMAT_VERSION,
+  createSnapshot,
+  parseSnapshotId,
+} from './snapshotStore';
+import * as fsPlan from '../core/file-plan';
+
+/**
+ * Snapshot formats written by earlier versions of Mementor:
+ * - `context-json`: `snapshot_<id>.json` from the watcher, with `timestamp`, `changes` and
+ *   `documents[].meta`/`content`
+ * - `generator-markdown`: `snapshot_HHMMSS.md` with a `=== MEMENTOR SNAPSHOT ===` metadata header
+ * - `session-markdown`: `snapshot_<id>.md` holding the raw active context of an AI session
+ * - `inline-json`: version 1 of the current format, with the documents stored in the snapshot
+ *   instead of in the object store
+ */
+export type LegacySnapshotKind =
+  | 'context-json'
+  | 'generator-markdown'
+  | 'session-markdown'
+  | 'inline-json';
+
+export interface LegacySnapshot {
+  file: string;
+  kind: LegacySnapshotKind;
+  snapshot: Snapshot;
+}
+
+const METADATA_HEADER = '=== MEMENTOR SNAPSHOT ===';
+
+interface ContextJsonSnapshot {
+  timestamp: string;
+  changes?: SnapshotChange[];
+  documents?: Array<{ meta?: { title?: string }; content?: string }>;
+}
+
+/**
+ * Finds snapshots in older formats below the snapshots directory and converts them.
+ * Files that are already in the current format are skipped; files that cannot be
+ * converted are returned with the reason.
+ */
+export async function findLegacySnapshots(
+  snapshotsDir: string,
+): Promise<{ snapshots: LegacySnapshot[]; failed: Array<{ file: string; reason: string }> }> {
+  const files = await glob('**/snapshot_*.{json,md}', { cwd: snapshotsDir, absolute: true });
+  const snapshots: LegacySnapshot[] = [];
+  const failed: Array<{ file: string; reason: string }> = [];
+
+  for (const file of files.sort()) {
+    try {
+      const legacy = convertLegacySnapshot(file, await fsPlan.readFile(file));
+      if (legacy) snapshots.push(legacy);
+    } catch (error) {
+      failed.push({ file, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { snapshots, failed };
+}
+
+/**
+ * Converts a snapshot in one of the older formats to the current format.
+ * @returns The converted snapshot, or null when the file is already in the current format
+ */
+export function convertLegacySnapshot(file: string, content: string): LegacySnapshot | null {
+  if (file.endsWith('.json')) {
+    const parsed = JSON.parse(content);
+    if (parsed.format === SNAPSHOT_FORMAT) {
+      if (parsed.version === SNAPSHOT_FORMAT_VERSION) return null;
+      return { file, kind: 'inline-json', snapshot: convertInlineJson(parsed) };
+    }
+    return { file, kind: 'context-json', snapshot: convertContextJson(parsed) };
+  }
+
+  if (content.startsWith(METADATA_HEADER)) {
+    return { file, kind: 'generator-markdown', snapshot: convertGeneratorMarkdown(file, content) };
+  }
+
+  return { file, kind: 'session-markdown', snapshot: convertSessionMarkdown(file, content) };
+}
+
+function convertInlineJson(legacy: Snapshot): Snapshot {
+  if (legacy.version !== 1 || !Array.isArray(legacy.documents)) {
+    throw new Error(`unsupported snapshot format version ${legacy.version}`);
+  }
+  return { ...legacy, version: SNAPSHOT_FORMAT_VERSION };
+}
+
+function convertContextJson(legacy: ContextJsonSnapshot): Snapshot {
+  const createdAt = new Date(legacy.timestamp);
+  if (isNaN(createdAt.getTime())) {
+    throw new Error('snapshot has no valid timestamp');
+  }
+
+  return createSnapshot({
+    trigger: 'watch',
+    createdAt,
+    changes: legacy.changes ?? [],
+    documents: (legacy.documents ?? []).map((doc, index) => ({
+      path: `${doc.meta?.title ?? `document_${index + 1}`}.md`,
+      content: doc.content ?? '',
+    })),
+  });
+}
+
+/**
+ * Generator snapshots hold a metadata header followed by the rendered snapshot template.
+ * The rendered report is kept as the captured document since the source was not stored.
+ */
+function convertGeneratorMarkdown(file: string, content: string): Snapshot {
+  const separator = content.indexOf('\n---\n');
+  const header = (separator === -1 ? content : content.slice(0, separator)).split('\n');
+  const body = separator === -1 ? '' : content.slice(separator + '\n---\n'.length).trimStart();
+
+  const field = (name: string): string | undefined =>
+    header
+      .find(line => line.startsWith(`${name}:`))
+      ?.slice(name.length + 1)
+      .trim();
+  const metric = (name: string): number => {
+    const value = header.find(line => line.startsWith(`- ${name}:`))?.split(':')[1];
+    return value ? parseFloat(value) || 0 : 0;
+  };
+
+  const created = field('Created');
+  const createdAt = created ? new Date(created) : dateFromPath(file);
+  if (!createdAt || isNaN(createdAt.getTime())) {
+    throw new Error('snapshot has no Created date and its location does not encode one');
+  }
+
+  const todos = metric('TODOs');
+  const metrics: HealthMetrics = {
+    last_updated: field('Updated') ?? createdAt.toISOString(),
+    word_count: metric('Word Count'),
+    reading_time: metric('Reading Time'),
+    has_todos: todos > 0,
+    todo_count: todos,
+    linked_files: [],
+    broken_links: [],
+    completion_percentage: metric('Completion'),
+    section_count: metric('Sections'),
+    section_depth: 0,
+    code_blocks: metric('Code Blocks'),
+    avg_section_length: 0,
+    readability_score: 0,
+    last_snapshot_delta: metric('Days Since Last Snapshot'),
+  };
+
+  return createSnapshot({
+    trigger: 'manual',
+    createdAt,
+    metrics,
+    documents: [{ path: 'snapshot.md', content: body }],
+  });
+}
+
+function convertSessionMarkdown(file: string, content: string): Snapshot {
+  const createdAt = parseSnapshotId(path.basename(file, '.md').replace(/^snapshot_/, ''));
+  if (!createdAt) {
+    throw new Error('file name does not contain a snapshot timestamp');
+  }
+
+  return createSnapshot({
+    trigger: 'ai-session',
+    createdAt,
+    documents: [{ path: 'active_context.md', content }],
+  });
+}
+
+/**
+ * Reads the date from a `YYYY/MM/DD/snapshot_HHMMSS.md` location, in local time
+ * as the generator wrote it.
+ */
+function dateFromPath(file: string): Date | null {
+  const match = file.match(
+    /(\d{4})[\\/](\d{2})[\\/](\d{2})[\\/]snapshot_(\d{2})(\d{2})(\d{2})\.md$/,
+  );
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
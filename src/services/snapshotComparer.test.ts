@@ -0,0 +1,38 @@
+import { calculateHealthMetrics } from './healthMetrics';
+import { SnapshotComparer } from './snapshotComparer';
+import { createSnapshot } from './snapshotStore';
+
+const comparer = new SnapshotComparer('snapshots');
+
+function snapshotOf(content: string, readability: number): ReturnType<typeof createSnapshot> {
+  return createSnapshot({
+    trigger: 'manual',
+    metrics: { ...calculateHealthMetrics(content), readability_score: readability },
+    documents: [{ path: 'notes.md', content }],
+  });
+}
+
+describe('SnapshotComparer.compare', () => {
+  it('rounds metric deltas to one decimal', () => {
+    const diff = comparer.compare(
+      snapshotOf('# Notes\n', 0.1),
+      snapshotOf('# Notes\n', 0.3),
+      'old',
+      'new',
+    );
+
+    expect(diff.metrics.changes.readability_score).toEqual({ old: 0.1, new: 0.3, delta: 0.2 });
+  });
+
+  it('lists added and removed lines', () => {
+    const diff = comparer.compare(
+      snapshotOf('# Notes\n\nAlpha\n', 50),
+      snapshotOf('# Notes\n\nSomething else entirely\n', 50),
+      'old',
+      'new',
+    );
+
+    expect(diff.content.added).toEqual(['Something else entirely']);
+    expect(diff.content.removed).toEqual(['Alpha']);
+  });
+});
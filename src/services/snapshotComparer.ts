@@ -1,6 +1,8 @@
-import fs from 'fs/promises';
 import path from 'path';
+import { Snapshot } from '../types';
+import { round } from '../core/readability';
 import { HealthMetrics } from './templateRenderer';
+import { SnapshotStore } from './snapshotStore';
 
 interface SnapshotMetadata {
   version: string;
@@ -9,18 +11,21 @@ interface SnapshotMetadata {
   health_metrics?: HealthMetrics;
 }
 
+// Per-section readability is too detailed to list as a metric change
+type ComparedMetric = Exclude<keyof HealthMetrics, 'readability_sections'>;
+
 interface SnapshotDiff {
-  oldPath: string;
-  newPath: string;
+  oldName: string;
+  newName: string;
   metrics: {
     old: HealthMetrics;
     new: HealthMetrics;
     changes: Partial<
       Record<
-        keyof HealthMetrics,
+        ComparedMetric,
         {
-          old: number | string | boolean | string[];
-          new: number | string | boolean | string[];
+          old?: number | string | boolean | string[];
+          new?: number | string | boolean | string[];
           delta?: number;
         }
       >
@@ -36,74 +41,59 @@ interface SnapshotDiff {
   };
 }
 
+function emptyMetrics(lastUpdated: string): HealthMetrics {
+  return {
+    last_updated: lastUpdated,
+    word_count: 0,
+    reading_time: 0,
+    has_todos: false,
+    todo_count: 0,
+    linked_files: [],
+    broken_links: [],
+    completion_percentage: 0,
+    section_count: 0,
+    section_depth: 0,
+    code_blocks: 0,
+    avg_section_length: 0,
+    readability_score: 0,
+    last_snapshot_delta: 0,
+  };
+}
+
 export class SnapshotComparer {
-  private async parseSnapshot(
-    filePath: string,
-  ): Promise<{ metadata: SnapshotMetadata; content: string[] }> {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const lines = content.split('\n');
-
-    // Find metadata section
-    const metadataEndIndex = lines.findIndex(line => line === '---');
-    if (metadataEndIndex === -1) {
-      throw new Error('Invalid snapshot format: no metadata section found');
-    }
+  private store: SnapshotStore;
 
-    const metadataLines = lines.slice(0, metadataEndIndex);
-    const contentLines = lines.slice(metadataEndIndex + 1);
-
-    // Parse metadata
-    const version = metadataLines.find(line => line.startsWith('Version:'))?.split(': ')[1] || '';
-    const created = metadataLines.find(line => line.startsWith('Created:'))?.split(': ')[1] || '';
-    const updated = metadataLines.find(line => line.startsWith('Updated:'))?.split(': ')[1] || '';
-
-    // Parse health metrics
-    const healthMetrics: HealthMetrics = {
-      last_updated: updated,
-      word_count: this.extractMetric(metadataLines, 'Word Count') || 0,
-      reading_time: this.extractMetric(metadataLines, 'Reading Time') || 0,
-      has_todos: this.extractMetric(metadataLines, 'TODOs') > 0,
-      todo_count: this.extractMetric(metadataLines, 'TODOs') || 0,
-      linked_files: [],
-      broken_links: [],
-      completion_percentage: this.extractMetric(metadataLines, 'Completion', true) || 0,
-      section_count: this.extractMetric(metadataLines, 'Sections') || 0,
-      section_depth: 0,
-      code_blocks: this.extractMetric(metadataLines, 'Code Blocks') || 0,
-      avg_section_length: 0,
-      readability_score: 0,
-      last_snapshot_delta: this.extractMetric(metadataLines, 'Days Since Last Snapshot') || 0,
-    };
+  /**
+   * @param snapshotsDir - Directory snapshots are stored in
+   */
+  constructor(snapshotsDir: string) {
+    this.store = new SnapshotStore(snapshotsDir);
+  }
 
+  private parseSnapshot(snapshot: Snapshot): { metadata: SnapshotMetadata; content: string[] } {
     return {
       metadata: {
-        version,
-        created_at: created,
-        updated_at: updated,
-        health_metrics: healthMetrics,
+        version: String(snapshot.version),
+        created_at: snapshot.createdAt,
+        updated_at: snapshot.createdAt,
+        health_metrics: snapshot.metrics ?? emptyMetrics(snapshot.createdAt),
       },
-      content: contentLines.filter(line => line.trim() !== ''),
+      content: snapshot.documents
+        .flatMap(doc => doc.content.split('\n'))
+        .filter(line => line.trim() !== ''),
     };
   }
 
-  private extractMetric(lines: string[], key: string, isPercentage = false): number {
-    const line = lines.find(l => l.includes(`- ${key}:`));
-    if (!line) return 0;
-
-    const value = line.split(':')[1].trim();
-    if (isPercentage) {
-      return parseFloat(value.replace('%', ''));
-    }
-    return parseInt(value.split(' ')[0], 10);
-  }
-
   private compareMetrics(
     old: HealthMetrics,
     current: HealthMetrics,
   ): SnapshotDiff['metrics']['changes'] {
     const changes: SnapshotDiff['metrics']['changes'] = {};
 
-    for (const key of Object.keys(old) as Array<keyof HealthMetrics>) {
+    const keys = new Set([...Object.keys(old), ...Object.keys(current)]);
+    keys.delete('readability_sections');
+
+    for (const key of keys as Set<ComparedMetric>) {
       const oldValue = old[key];
       const newValue = current[key];
 
@@ -113,9 +103,9 @@ export class SnapshotComparer {
           new: newValue,
         };
 
-        // Add delta for numeric values
+        // Add delta for numeric values, rounded like the readability metrics to avoid float noise
         if (typeof oldValue === 'number' && typeof newValue === 'number') {
-          changes[key]!.delta = newValue - oldValue;
+          changes[key]!.delta = round(newValue - oldValue);
         }
       }
     }
@@ -176,13 +166,22 @@ export class SnapshotComparer {
 
   async compareSnapshots(oldPath: string, newPath: string): Promise<SnapshotDiff> {
     const [oldSnapshot, newSnapshot] = await Promise.all([
-      this.parseSnapshot(oldPath),
-      this.parseSnapshot(newPath),
+      this.store.load(oldPath),
+      this.store.load(newPath),
     ]);
+    return this.compare(oldSnapshot, newSnapshot, path.basename(oldPath), path.basename(newPath));
+  }
+
+  /**
+   * Compares two snapshots that are already loaded, e.g. one built from a git ref.
+   */
+  compare(old: Snapshot, current: Snapshot, oldName: string, newName: string): SnapshotDiff {
+    const oldSnapshot = this.parseSnapshot(old);
+    const newSnapshot = this.parseSnapshot(current);
 
     return {
-      oldPath,
-      newPath,
+      oldName: this.describe(old, oldName),
+      newName: this.describe(current, newName),
       metrics: {
         old: oldSnapshot.metadata.health_metrics!,
         new: newSnapshot.metadata.health_metrics!,
@@ -195,11 +194,18 @@ export class SnapshotComparer {
     };
   }
 
+  private describe(snapshot: Snapshot, name: string): string {
+    if (!snapshot.git) return name;
+    const branch = snapshot.git.branch ? ` on ${snapshot.git.branch}` : '';
+    const dirty = snapshot.git.dirty ? ', uncommitted changes' : '';
+    return `${name} (${snapshot.git.commit.slice(0, 7)}${branch}${dirty})`;
+  }
+
   formatDiff(diff: SnapshotDiff): string {
     const lines: string[] = [
       '=== SNAPSHOT COMPARISON ===',
-      `Old: ${path.basename(diff.oldPath)}`,
-      `New: ${path.basename(diff.newPath)}`,
+      `Old: ${diff.oldName}`,
+      `New: ${diff.newName}`,
       '',
       '=== METRICS CHANGES ===',
     ];
@@ -217,7 +223,7 @@ export class SnapshotComparer {
           `  ${change.old} → ${change.new} ${trend} (${change.delta! >= 0 ? '+' : ''}${change.delta})`,
         );
       } else {
-        lines.push(`  ${change.old} → ${change.new}`);
+        lines.push(`  ${change.old ?? 'none'} → ${change.new ?? 'none'}`);
       }
     }
 
@@ -0,0 +1,82 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapshotGenerator } from './snapshotGenerator';
+import { SnapshotStore } from './snapshotStore';
+
+let root: string;
+let docsDir: string;
+let snapshotsDir: string;
+const generator = new SnapshotGenerator();
+
+// A long sentence of long words. Sections need 20 words to be flagged, so it is used twice
+const dense =
+  'Comprehensive organizational interdependencies necessitate extraordinarily sophisticated ' +
+  'infrastructural considerations regarding institutionalized administrative responsibilities.';
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-generator-'));
+  docsDir = path.join(root, 'docs', 'context');
+  snapshotsDir = path.join(root, 'docs', 'snapshots');
+  await fs.mkdir(docsDir, { recursive: true });
+  await fs.writeFile(path.join(docsDir, 'notes.md'), '# Notes\n\nShort and plain.\n');
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('SnapshotGenerator.createSnapshot', () => {
+  it('captures each document and lists the changes since the previous snapshot', async () => {
+    const first = await generator.createSnapshot(docsDir, snapshotsDir, { trigger: 'init' });
+    expect(first.snapshot.trigger).toBe('init');
+    expect(first.snapshot.documents.map(doc => doc.path)).toEqual(['notes.md']);
+    expect(first.snapshot.changes).toEqual([
+      { file: 'notes.md', type: 'added', description: 'Added notes.md' },
+    ]);
+
+    await fs.writeFile(path.join(docsDir, 'notes.md'), '# Notes\n\nShort and plain.\n\n## Next\n');
+    await fs.writeFile(path.join(docsDir, 'plan.md'), '# Plan\n');
+    const second = await generator.createSnapshot(docsDir, snapshotsDir);
+
+    expect(second.snapshot.changes).toEqual([
+      {
+        file: 'notes.md',
+        type: 'modified',
+        description: 'Edited notes.md: 2 line(s) added, 0 removed; new sections: Next',
+      },
+      { file: 'plan.md', type: 'added', description: 'Added plan.md' },
+    ]);
+  });
+
+  it('flags sections above maxGradeLevel in each document and across all of them', async () => {
+    await fs.writeFile(path.join(docsDir, 'notes.md'), `# Notes\n\n${dense} ${dense}\n`);
+
+    const strict = await generator.createSnapshot(docsDir, snapshotsDir, { maxGradeLevel: 12 });
+    const lenient = await generator.createSnapshot(docsDir, snapshotsDir, { maxGradeLevel: 100 });
+
+    expect(strict.snapshot.metrics?.readability_sections).toEqual([
+      expect.objectContaining({ title: 'notes.md > Notes', difficult: true }),
+    ]);
+    expect(lenient.snapshot.metrics?.readability_sections).toEqual([
+      expect.objectContaining({ title: 'notes.md > Notes', difficult: false }),
+    ]);
+  });
+});
+
+describe('SnapshotGenerator.createSnapshotIfChanged', () => {
+  it('creates the first snapshot and skips later ones until a document changes', async () => {
+    expect(await generator.createSnapshotIfChanged(docsDir, snapshotsDir)).not.toBeNull();
+    expect(await generator.createSnapshotIfChanged(docsDir, snapshotsDir)).toBeNull();
+
+    await fs.rm(path.join(docsDir, 'notes.md'));
+    const result = await generator.createSnapshotIfChanged(docsDir, snapshotsDir);
+
+    expect(result?.snapshot.changes).toEqual([
+      { file: 'notes.md', type: 'deleted', description: 'Deleted notes.md' },
+    ]);
+    expect(await new SnapshotStore(snapshotsDir).list()).toHaveLength(2);
+  });
+});
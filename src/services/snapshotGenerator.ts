@@ -1,155 +1,200 @@
-import fs from 'fs/promises';
 import path from 'path';
-import {
-  TemplateRenderer,
-  TemplateData,
-  DocumentationMetadata,
-  HealthMetrics,
-} from './templateRenderer';
+import { glob } from 'glob';
+import { Snapshot, SnapshotChange, SnapshotDocument, SnapshotTrigger } from '../types';
+import { calculateHealthMetrics } from './healthMetrics';
+import { collectGitInfo } from './snapshotGit';
+import { SnapshotStore, createSnapshot } from './snapshotStore';
+import { diffLines } from '../core/diff';
+import { parseSections, MarkdownSection } from '../core/markdown-sections';
+import { analyzeLinks } from '../core/markdown-links';
+import * as fsPlan from '../core/file-plan';
+
+export interface SnapshotOptions {
+  trigger?: SnapshotTrigger;
+  sessionId?: string;
+  label?: string;
+  note?: string;
+  /** Grade level above which sections are flagged as difficult to read */
+  maxGradeLevel?: number;
+}
 
 export class SnapshotGenerator {
-  private renderer: TemplateRenderer;
-
-  constructor() {
-    this.renderer = new TemplateRenderer();
+  /**
+   * Reads every markdown document directly inside the docs directory and checks its links.
+   */
+  private async captureDocuments(
+    docsDir: string,
+    maxGradeLevel?: number,
+  ): Promise<SnapshotDocument[]> {
+    const files = await glob('*.md', { cwd: docsDir });
+
+    return Promise.all(
+      files.sort().map(async file => {
+        const filePath = path.join(docsDir, file);
+        const content = await fsPlan.readFile(filePath);
+        const links = await analyzeLinks(filePath, content);
+        const metrics = calculateHealthMetrics(content, new Date(), links, maxGradeLevel);
+        return { path: file, content, metrics };
+      }),
+    );
   }
 
-  private async calculateHealthMetrics(docPath: string): Promise<HealthMetrics> {
-    const content = await fs.readFile(docPath, 'utf-8');
-    const words = content.split(/\s+/).length;
-    const sections = content.match(/^#{1,6}\s/gm)?.length || 0;
-    const todos = content.match(/\[[\s\t]*\]/g)?.length || 0;
-    const completedTodos = content.match(/\[x\]/gi)?.length || 0;
-    const codeBlocks = content.match(/```[\s\S]*?```/g)?.length || 0;
-
-    return {
-      last_updated: new Date().toISOString(),
-      word_count: words,
-      reading_time: Math.ceil(words / 200), // Average reading speed
-      has_todos: todos > 0,
-      todo_count: todos,
-      linked_files: [], // TODO: Implement link detection
-      broken_links: [],
-      completion_percentage: todos > 0 ? (completedTodos / todos) * 100 : 100,
-      section_count: sections,
-      section_depth: Math.max(
-        ...(content.match(/^(#{1,6})\s/gm)?.map(h => h.trim().length) || [0]),
-      ),
-      code_blocks: codeBlocks,
-      avg_section_length: sections > 0 ? words / sections : words,
-      readability_score: 0, // TODO: Implement readability calculation
-      last_snapshot_delta: 0, // Will be calculated when creating snapshot
-    };
+  private getLastSnapshotDelta(previous: Snapshot | null): number {
+    if (!previous) return 0;
+
+    return Math.floor(
+      (Date.now() - new Date(previous.createdAt).getTime()) / (1000 * 60 * 60 * 24),
+    );
   }
 
-  private async getLastSnapshotDelta(snapshotsDir: string): Promise<number> {
+  private async loadPrevious(store: SnapshotStore): Promise<Snapshot | null> {
     try {
-      const files = await fs.readdir(snapshotsDir);
-      if (files.length === 0) return 0;
-
-      const snapshots = await Promise.all(
-        files
-          .filter(f => f.endsWith('.md'))
-          .map(async f => {
-            const stat = await fs.stat(path.join(snapshotsDir, f));
-            return { name: f, mtime: stat.mtime };
-          }),
-      );
-
-      if (snapshots.length === 0) return 0;
-
-      const latestSnapshot = snapshots.reduce((latest, current) =>
-        current.mtime > latest.mtime ? current : latest,
-      );
-
-      const daysSinceLastSnapshot = Math.floor(
-        (Date.now() - latestSnapshot.mtime.getTime()) / (1000 * 60 * 60 * 24),
-      );
-
-      return daysSinceLastSnapshot;
+      return await store.latest();
     } catch (error) {
-      console.error('Error calculating last snapshot delta:', error);
-      return 0;
+      // An unreadable previous snapshot should not prevent taking a new one
+      console.warn(
+        '⚠️  Could not read the previous snapshot:',
+        error instanceof Error ? error.message : error,
+      );
+      return null;
     }
   }
 
-  private async ensureSnapshotDirectory(baseDir: string, date: Date): Promise<string> {
-    const year = date.getFullYear().toString();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-
-    const yearDir = path.join(baseDir, year);
-    const monthDir = path.join(yearDir, month);
-    const dayDir = path.join(monthDir, day);
+  /**
+   * Lists the documents that were added, deleted or modified since the previous snapshot.
+   */
+  private describeChanges(
+    previous: SnapshotDocument[],
+    current: SnapshotDocument[],
+  ): SnapshotChange[] {
+    const before = new Map(previous.map(doc => [doc.path, doc.content]));
+    const after = new Map(current.map(doc => [doc.path, doc.content]));
+    const changes: SnapshotChange[] = [];
+
+    for (const [file, content] of after) {
+      const old = before.get(file);
+      if (old === undefined) {
+        changes.push({ file, type: 'added', description: `Added ${file}` });
+      } else if (old !== content) {
+        changes.push({
+          file,
+          type: 'modified',
+          description: `Edited ${file}: ${this.describeEdit(old, content)}`,
+        });
+      }
+    }
 
-    await fs.mkdir(yearDir, { recursive: true });
-    await fs.mkdir(monthDir, { recursive: true });
-    await fs.mkdir(dayDir, { recursive: true });
+    for (const file of before.keys()) {
+      if (!after.has(file)) {
+        changes.push({ file, type: 'deleted', description: `Deleted ${file}` });
+      }
+    }
 
-    return dayDir;
+    return changes;
   }
 
-  async createSnapshot(docPath: string, outputDir: string): Promise<void> {
-    try {
-      // Ensure snapshots directory exists
-      await fs.mkdir(outputDir, { recursive: true });
-
-      // Calculate health metrics
-      const healthMetrics = await this.calculateHealthMetrics(docPath);
-
-      // Update last snapshot delta
-      healthMetrics.last_snapshot_delta = await this.getLastSnapshotDelta(outputDir);
-
-      // Create metadata
-      const metadata: DocumentationMetadata = {
-        version: '1.0.0',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        dependencies: [{ name: 'mementor-ts', version: '1.0.0' }],
-        health_metrics: healthMetrics,
-        tags: ['documentation', 'snapshot'],
+  /**
+   * Summarizes an edit by its changed line counts and the sections it added or removed.
+   */
+  private describeEdit(before: string, after: string): string {
+    const lines = diffLines(before, after);
+    const added = lines.filter(line => line.type === '+').length;
+    const removed = lines.filter(line => line.type === '-').length;
+
+    const headings = (content: string): Set<string> => {
+      const titles = new Set<string>();
+      const visit = (section: MarkdownSection): void => {
+        if (section.level > 0) titles.add(section.title);
+        section.children.forEach(visit);
       };
+      visit(parseSections(content));
+      return titles;
+    };
+    const oldHeadings = headings(before);
+    const newHeadings = headings(after);
 
-      // Prepare template data
-      const data: TemplateData = {
-        title: 'Documentation Snapshot',
-        description: 'Current state of project documentation',
-        changes: [
-          'Updated template system',
-          'Added metadata support',
-          'Implemented snapshot generation',
-        ],
-        state_items: [
-          {
-            category: 'Implementation',
-            items: [
-              { description: 'Template system', completed: true },
-              { description: 'Metadata support', completed: true },
-              { description: 'Snapshot generation', completed: true },
-            ],
-          },
-        ],
-        next_actions: [
-          'Implement automated snapshot scheduling',
-          'Add more comprehensive health metrics',
-          'Create snapshot comparison tools',
-        ],
-        metadata,
-      };
+    const parts = [`${added} line(s) added, ${removed} removed`];
+    const addedSections = [...newHeadings].filter(title => !oldHeadings.has(title));
+    const removedSections = [...oldHeadings].filter(title => !newHeadings.has(title));
+    if (addedSections.length > 0) parts.push(`new sections: ${addedSections.join(', ')}`);
+    if (removedSections.length > 0) parts.push(`removed sections: ${removedSections.join(', ')}`);
+
+    return parts.join('; ');
+  }
 
-      // Generate snapshot
-      const content = await this.renderer.createSnapshot('snapshot', data);
+  /**
+   * Creates a snapshot only when a document was added, edited or deleted since the
+   * previous snapshot.
+   * @returns The new snapshot, or null when nothing changed
+   */
+  async createSnapshotIfChanged(
+    docsDir: string,
+    outputDir: string,
+    options: SnapshotOptions = {},
+  ): Promise<{ snapshot: Snapshot; file: string } | null> {
+    return this.capture(docsDir, outputDir, options, true);
+  }
 
-      // Create organized directory structure
-      const now = new Date();
-      const snapshotDir = await this.ensureSnapshotDirectory(outputDir, now);
+  /**
+   * Captures every document in the docs directory, with health metrics per document and
+   * across all of them, the changes since the previous snapshot and the git state.
+   */
+  async createSnapshot(
+    docsDir: string,
+    outputDir: string,
+    options: SnapshotOptions = {},
+  ): Promise<{ snapshot: Snapshot; file: string }> {
+    return (await this.capture(docsDir, outputDir, options, false))!;
+  }
 
-      // Format time for filename (HHMMSS)
-      const timeStr = now.toTimeString().split(' ')[0].replace(/:/g, '');
-      const outputPath = path.join(snapshotDir, `snapshot_${timeStr}.md`);
-      await fs.writeFile(outputPath, content);
+  private async capture(
+    docsDir: string,
+    outputDir: string,
+    options: SnapshotOptions,
+    onlyIfChanged: boolean,
+  ): Promise<{ snapshot: Snapshot; file: string } | null> {
+    try {
+      const store = new SnapshotStore(outputDir);
+      const previous = await this.loadPrevious(store);
+      const documents = await this.captureDocuments(docsDir, options.maxGradeLevel);
+      const changes = this.describeChanges(previous?.documents ?? [], documents);
+      if (onlyIfChanged && previous && changes.length === 0) return null;
+
+      // Metrics across all documents
+      const metrics = calculateHealthMetrics(
+        documents.map(doc => doc.content).join('\n\n'),
+        new Date(),
+        undefined,
+        options.maxGradeLevel,
+      );
+      metrics.last_snapshot_delta = this.getLastSnapshotDelta(previous);
+      metrics.linked_files = [
+        ...new Set(documents.flatMap(doc => doc.metrics?.linked_files ?? [])),
+      ].sort();
+      metrics.broken_links = documents.flatMap(doc =>
+        (doc.metrics?.broken_links ?? []).map(link => `${doc.path}: ${link}`),
+      );
+      metrics.readability_sections = documents.flatMap(doc =>
+        (doc.metrics?.readability_sections ?? []).map(section => ({
+          ...section,
+          title: `${doc.path} > ${section.title}`,
+        })),
+      );
 
-      console.warn(`✨ Created snapshot: ${outputPath}`);
+      const snapshot = createSnapshot({
+        trigger: options.trigger ?? 'manual',
+        sessionId: options.sessionId,
+        label: options.label,
+        note: options.note,
+        git: await collectGitInfo(docsDir, previous?.git?.commit),
+        changes,
+        metrics,
+        documents,
+      });
+
+      const file = await store.save(snapshot);
+      console.warn(`✨ Created snapshot: ${file}`);
+      return { snapshot, file };
     } catch (error) {
       if (error instanceof Error) {
         console.error('Failed to create snapshot:', error.message);
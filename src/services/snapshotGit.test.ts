@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SimpleGit, simpleGit } from 'simple-git';
+import { collectGitInfo, snapshotAtRef } from './snapshotGit';
+
+let root: string;
+let docsDir: string;
+let git: SimpleGit;
+
+async function commit(file: string, content: string, message: string): Promise<string> {
+  await fs.writeFile(path.join(root, file), content);
+  await git.add(file);
+  await git.commit(message);
+  return (await git.revparse(['HEAD'])).trim();
+}
+
+beforeEach(async () => {
+  root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-git-')));
+  docsDir = path.join(root, 'docs', 'context');
+  await fs.mkdir(docsDir, { recursive: true });
+  git = simpleGit(root);
+  await git.init(['--initial-branch=main']);
+  await git.addConfig('user.name', 'Test');
+  await git.addConfig('user.email', 'test@example.com');
+  await git.addConfig('commit.gpgsign', 'false');
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('collectGitInfo', () => {
+  it('returns undefined before the first commit and outside a repository', async () => {
+    expect(await collectGitInfo(docsDir)).toBeUndefined();
+    expect(await collectGitInfo(os.tmpdir())).toBeUndefined();
+  });
+
+  it('records the commit, branch, uncommitted changes and commits since the previous one', async () => {
+    const first = await commit('docs/context/progress.md', '# Progress\n', 'Add progress');
+    const second = await commit('docs/context/brief.md', '# Brief\n', 'Add brief');
+    await fs.writeFile(path.join(docsDir, 'progress.md'), '# Progress\n\n- More\n');
+
+    expect(await collectGitInfo(docsDir, first)).toEqual({
+      commit: second,
+      branch: 'main',
+      dirty: true,
+      commits: [{ hash: second, message: 'Add brief' }],
+    });
+  });
+
+  it('leaves out the branch on a detached HEAD', async () => {
+    const first = await commit('docs/context/progress.md', '# Progress\n', 'Add progress');
+    await git.checkout(first);
+
+    expect(await collectGitInfo(docsDir)).toEqual({ commit: first, dirty: false, commits: [] });
+  });
+});
+
+describe('snapshotAtRef', () => {
+  it('captures the documents as they were at the ref', async () => {
+    const first = await commit('docs/context/progress.md', '# Progress\n', 'Add progress');
+    await git.addTag('v1.0.0');
+    await commit('docs/context/progress.md', '# Progress\n\n- Shipped\n', 'Update progress');
+    await commit('docs/context/brief.md', '# Brief\n', 'Add brief');
+    await commit('README.md', '# Readme\n', 'Add readme');
+
+    const snapshot = await snapshotAtRef(docsDir, 'v1.0.0');
+
+    expect(snapshot.git).toEqual({ commit: first, dirty: false, commits: [] });
+    expect(snapshot.documents.map(doc => [doc.path, doc.content])).toEqual([
+      ['progress.md', '# Progress\n'],
+    ]);
+  });
+
+  it('rejects unknown refs and directories outside a repository', async () => {
+    await commit('docs/context/progress.md', '# Progress\n', 'Add progress');
+
+    await expect(snapshotAtRef(docsDir, 'v9')).rejects.toThrow('Unknown git ref "v9"');
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-nogit-'));
+    try {
+      await expect(snapshotAtRef(outside, 'HEAD')).rejects.toThrow(
+        'is not inside a git repository',
+      );
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { Snapshot, SnapshotGitInfo } from '../types';
+import { calculateHealthMetrics } from './healthMetrics';
+import { createSnapshot } from './snapshotStore';
+
+/**
+ * Reads the repository state for a snapshot.
+ * @param dir - Any directory inside the repository, usually the docs directory
+ * @param since - Commit of the previous snapshot, commits after it are listed
+ * @returns The state, or undefined outside a git repository or before the first commit
+ */
+export async function collectGitInfo(
+  dir: string,
+  since?: string,
+): Promise<SnapshotGitInfo | undefined> {
+  try {
+    const git = simpleGit(dir);
+    if (!(await git.checkIsRepo())) return undefined;
+
+    const commit = (await git.revparse(['HEAD'])).trim();
+    const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    const status = await git.status();
+
+    let commits: SnapshotGitInfo['commits'] = [];
+    if (since && since !== commit) {
+      try {
+        const log = await git.log({ from: since, to: commit });
+        commits = log.all.map(entry => ({ hash: entry.hash, message: entry.message }));
+      } catch {
+        // The previous commit is no longer in the history, e.g. after a rebase
+      }
+    }
+
+    return {
+      commit,
+      ...(branch !== 'HEAD' ? { branch } : {}),
+      dirty: !status.isClean(),
+      commits,
+    };
+  } catch {
+    // No commits yet, or git is not available
+    return undefined;
+  }
+}
+
+/**
+ * Builds a snapshot of the documents in the docs directory as they were at a git ref,
+ * without storing it.
+ * @param docsDir - Docs directory in the working tree
+ * @param ref - Commit, branch or tag, e.g. `v1.2.0`
+ */
+export async function snapshotAtRef(docsDir: string, ref: string): Promise<Snapshot> {
+  const git = simpleGit(docsDir);
+  if (!(await git.checkIsRepo())) {
+    throw new Error(`${docsDir} is not inside a git repository`);
+  }
+
+  let commit: string;
+  try {
+    commit = (await git.revparse([`${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown git ref "${ref}"`);
+  }
+
+  // Paths in the tree are relative to the repository root
+  const root = (await git.revparse(['--show-toplevel'])).trim();
+  const prefix = path
+    .relative(root, await fs.realpath(docsDir))
+    .split(path.sep)
+    .join('/');
+  const listing = await git.raw([
+    'ls-tree',
+    '--full-tree',
+    '--name-only',
+    commit,
+    prefix ? `${prefix}/` : '.',
+  ]);
+  const files = listing
+    .split('\n')
+    .filter(file => file.endsWith('.md'))
+    .sort();
+
+  const date = new Date((await git.show(['-s', '--format=%cI', commit])).trim());
+  const documents = await Promise.all(
+    files.map(async file => {
+      const content = await git.show([`${commit}:${file}`]);
+      const metrics = calculateHealthMetrics(content, date);
+      return { path: path.posix.basename(file), content, metrics };
+    }),
+  );
+
+  return createSnapshot({
+    trigger: 'manual',
+    createdAt: date,
+    metrics: calculateHealthMetrics(documents.map(doc => doc.content).join('\n\n'), date),
+    documents,
+    git: { commit, dirty: false, commits: [] },
+  });
+}
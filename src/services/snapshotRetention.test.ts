@@ -0,0 +1,189 @@
+import { RetentionPolicy } from '../types';
+import { applyRetention } from './snapshotRetention';
+import { SnapshotIndexEntry } from './snapshotStore';
+
+const policy: RetentionPolicy = { keepAllDays: 7, keepDailyWeeks: 4, autoPrune: false };
+// A Monday, so the keep-all window ends on 2025-03-24T12:00Z and the daily one on 2025-02-24T12:00Z
+const now = new Date('2025-03-31T12:00:00.000Z');
+
+function entry(createdAt: string, label?: string): SnapshotIndexEntry {
+  const id = createdAt.replace(/[-:.]/g, '').replace(/^(\d{4})(\d{2})(\d{2})/, '$1-$2-$3');
+  return {
+    id,
+    createdAt,
+    trigger: 'manual',
+    file: `snapshot_${id}.json`,
+    documents: [],
+    ...(label ? { label } : {}),
+  };
+}
+
+function decisions(entries: SnapshotIndexEntry[]): Record<string, boolean> {
+  return Object.fromEntries(
+    applyRetention(entries, policy, now).map(decision => [decision.entry.createdAt, decision.keep]),
+  );
+}
+
+describe('applyRetention', () => {
+  it('returns one decision per snapshot, newest first', () => {
+    const entries = [
+      entry('2025-03-01T10:00:00.000Z'),
+      entry('2025-03-30T10:00:00.000Z'),
+      entry('2025-03-15T10:00:00.000Z'),
+    ];
+
+    expect(applyRetention(entries, policy, now).map(decision => decision.entry.createdAt)).toEqual([
+      '2025-03-30T10:00:00.000Z',
+      '2025-03-15T10:00:00.000Z',
+      '2025-03-01T10:00:00.000Z',
+    ]);
+  });
+
+  it('keeps every snapshot within keepAllDays, up to and including the boundary', () => {
+    expect(
+      decisions([
+        entry('2025-03-31T11:00:00.000Z'),
+        entry('2025-03-30T09:00:00.000Z'),
+        entry('2025-03-30T08:00:00.000Z'),
+        entry('2025-03-24T12:00:00.000Z'),
+      ]),
+    ).toEqual({
+      '2025-03-31T11:00:00.000Z': true,
+      '2025-03-30T09:00:00.000Z': true,
+      '2025-03-30T08:00:00.000Z': true,
+      '2025-03-24T12:00:00.000Z': true,
+    });
+  });
+
+  it('keeps only the newest snapshot of each day after keepAllDays', () => {
+    const result = applyRetention(
+      [
+        entry('2025-03-31T11:00:00.000Z'),
+        entry('2025-03-24T11:59:59.999Z'),
+        entry('2025-03-24T08:00:00.000Z'),
+        entry('2025-03-20T18:00:00.000Z'),
+        entry('2025-03-20T09:00:00.000Z'),
+        entry('2025-03-19T09:00:00.000Z'),
+      ],
+      policy,
+      now,
+    );
+
+    expect(result.map(decision => [decision.entry.createdAt, decision.keep])).toEqual([
+      ['2025-03-31T11:00:00.000Z', true],
+      ['2025-03-24T11:59:59.999Z', true],
+      ['2025-03-24T08:00:00.000Z', false],
+      ['2025-03-20T18:00:00.000Z', true],
+      ['2025-03-20T09:00:00.000Z', false],
+      ['2025-03-19T09:00:00.000Z', true],
+    ]);
+    expect(result[2].reason).toBe('a newer snapshot of 2025-03-24 is kept');
+  });
+
+  it('groups days by UTC date', () => {
+    expect(
+      decisions([
+        entry('2025-03-31T11:00:00.000Z'),
+        entry('2025-03-21T00:30:00.000Z'),
+        entry('2025-03-20T23:30:00.000Z'),
+      ]),
+    ).toEqual({
+      '2025-03-31T11:00:00.000Z': true,
+      '2025-03-21T00:30:00.000Z': true,
+      '2025-03-20T23:30:00.000Z': true,
+    });
+  });
+
+  it('keeps the newest snapshot of each week after keepDailyWeeks', () => {
+    const result = applyRetention(
+      [
+        entry('2025-03-31T11:00:00.000Z'),
+        // Last day of the daily window
+        entry('2025-02-24T12:00:00.000Z'),
+        // Same Monday-to-Sunday week, but outside the daily window
+        entry('2025-02-24T11:00:00.000Z'),
+        entry('2025-02-12T09:00:00.000Z'),
+        entry('2025-02-10T09:00:00.000Z'),
+        // Sunday, so the week before
+        entry('2025-02-09T09:00:00.000Z'),
+      ],
+      policy,
+      now,
+    );
+
+    expect(result.map(decision => [decision.entry.createdAt, decision.keep])).toEqual([
+      ['2025-03-31T11:00:00.000Z', true],
+      ['2025-02-24T12:00:00.000Z', true],
+      ['2025-02-24T11:00:00.000Z', true],
+      ['2025-02-12T09:00:00.000Z', true],
+      ['2025-02-10T09:00:00.000Z', false],
+      ['2025-02-09T09:00:00.000Z', true],
+    ]);
+    expect(result[1].reason).toBe('newest snapshot of 2025-02-24');
+    expect(result[2].reason).toBe('newest snapshot of its week');
+    expect(result[4].reason).toBe('a newer snapshot of the same week is kept');
+  });
+
+  it('always keeps labelled snapshots without using up their day or week', () => {
+    const result = applyRetention(
+      [
+        entry('2025-03-31T11:00:00.000Z'),
+        entry('2025-03-20T18:00:00.000Z', 'release-1.0'),
+        entry('2025-03-20T09:00:00.000Z'),
+        entry('2025-03-20T08:00:00.000Z'),
+        entry('2025-01-15T09:00:00.000Z'),
+        entry('2025-01-14T09:00:00.000Z', 'pre-migration'),
+        entry('2025-01-13T09:00:00.000Z'),
+      ],
+      policy,
+      now,
+    );
+
+    expect(result.map(decision => [decision.entry.createdAt, decision.keep])).toEqual([
+      ['2025-03-31T11:00:00.000Z', true],
+      ['2025-03-20T18:00:00.000Z', true],
+      ['2025-03-20T09:00:00.000Z', true],
+      ['2025-03-20T08:00:00.000Z', false],
+      ['2025-01-15T09:00:00.000Z', true],
+      ['2025-01-14T09:00:00.000Z', true],
+      ['2025-01-13T09:00:00.000Z', false],
+    ]);
+    expect(result[1].reason).toBe('labelled release-1.0');
+  });
+
+  it('always keeps the newest snapshot, however old', () => {
+    const result = applyRetention(
+      [entry('2024-06-03T09:00:00.000Z'), entry('2024-06-04T09:00:00.000Z')],
+      { keepAllDays: 0, keepDailyWeeks: 0, autoPrune: false },
+      now,
+    );
+
+    expect(result[0]).toMatchObject({
+      entry: { createdAt: '2024-06-04T09:00:00.000Z' },
+      keep: true,
+      reason: 'newest snapshot',
+    });
+  });
+
+  it('counts the newest snapshot as the one kept for its day and week', () => {
+    const empty = { keepAllDays: 0, keepDailyWeeks: 0, autoPrune: false };
+    const result = applyRetention(
+      [entry('2025-03-31T11:00:00.000Z'), entry('2025-03-31T10:00:00.000Z')],
+      empty,
+      now,
+    );
+
+    expect(result.map(decision => decision.keep)).toEqual([true, false]);
+    expect(
+      applyRetention(
+        [entry('2025-03-24T11:00:00.000Z'), entry('2025-03-24T10:00:00.000Z')],
+        { ...empty, keepDailyWeeks: 4 },
+        now,
+      ).map(decision => decision.keep),
+    ).toEqual([true, false]);
+  });
+
+  it('returns no decisions without snapshots', () => {
+    expect(applyRetention([], policy, now)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+import { RetentionPolicy } from '../types';
+import { SnapshotIndexEntry, SnapshotStore } from './snapshotStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface RetentionDecision {
+  entry: SnapshotIndexEntry;
+  keep: boolean;
+  reason: string;
+}
+
+/**
+ * Decides which snapshots a retention policy keeps. Every snapshot younger than
+ * `keepAllDays` is kept, then the newest snapshot of each UTC day for `keepDailyWeeks`
+ * weeks, then the newest snapshot of each week. Labelled snapshots and the newest snapshot
+ * are always kept.
+ * @returns One decision per snapshot, newest first
+ */
+export function applyRetention(
+  entries: SnapshotIndexEntry[],
+  policy: RetentionPolicy,
+  now: Date = new Date(),
+): RetentionDecision[] {
+  const newestFirst = [...entries].sort((a, b) => b.id.localeCompare(a.id));
+  const keepAllUntil = now.getTime() - policy.keepAllDays * DAY;
+  const dailyUntil = keepAllUntil - policy.keepDailyWeeks * 7 * DAY;
+  const keptDays = new Set<string>();
+  const keptWeeks = new Set<string>();
+
+  return newestFirst.map((entry, index): RetentionDecision => {
+    const createdAt = new Date(entry.createdAt).getTime();
+    const day = entry.createdAt.slice(0, 10);
+    // Weeks start on Monday, counted from the Unix epoch (a Thursday)
+    const week = String(Math.floor((createdAt / DAY + 3) / 7));
+
+    if (entry.label) {
+      return { entry, keep: true, reason: `labelled ${entry.label}` };
+    }
+    if (index === 0) {
+      // The newest snapshot also stands for its day and week
+      keptDays.add(day);
+      keptWeeks.add(week);
+      return { entry, keep: true, reason: 'newest snapshot' };
+    }
+    if (createdAt >= keepAllUntil) {
+      return { entry, keep: true, reason: `taken within ${policy.keepAllDays} day(s)` };
+    }
+    if (createdAt >= dailyUntil) {
+      if (keptDays.has(day)) {
+        return { entry, keep: false, reason: `a newer snapshot of ${day} is kept` };
+      }
+      keptDays.add(day);
+      return { entry, keep: true, reason: `newest snapshot of ${day}` };
+    }
+    if (keptWeeks.has(week)) {
+      return { entry, keep: false, reason: 'a newer snapshot of the same week is kept' };
+    }
+    keptWeeks.add(week);
+    return { entry, keep: true, reason: 'newest snapshot of its week' };
+  });
+}
+
+/**
+ * Deletes the snapshots a retention policy does not keep, and the objects only they used.
+ * @returns The decision made for every snapshot, newest first
+ */
+export async function pruneSnapshots(
+  snapshotsDir: string,
+  policy: RetentionPolicy,
+  now: Date = new Date(),
+): Promise<RetentionDecision[]> {
+  const store = new SnapshotStore(snapshotsDir);
+  const decisions = applyRetention(await store.readIndex(), policy, now);
+  const pruned = decisions.filter(decision => !decision.keep).map(decision => decision.entry);
+
+  if (pruned.length > 0) {
+    await store.remove(pruned);
+    await store.gc();
+  }
+  return decisions;
+}
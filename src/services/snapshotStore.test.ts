@@ -0,0 +1,237 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SnapshotTrigger } from '../types';
+import * as fsPlan from '../core/file-plan';
+import { SnapshotStore, createSnapshot, hashContent, normalizeLabel } from './snapshotStore';
+
+let snapshotsDir: string;
+let store: SnapshotStore;
+
+beforeEach(async () => {
+  snapshotsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-store-'));
+  store = new SnapshotStore(snapshotsDir);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  fsPlan.setDryRun(false);
+  fsPlan.takePlannedChanges();
+  await fs.rm(snapshotsDir, { recursive: true, force: true });
+});
+
+async function save(
+  createdAt: string,
+  documents: Record<string, string>,
+  trigger: SnapshotTrigger = 'manual',
+): Promise<string> {
+  return store.save(
+    createSnapshot({
+      trigger,
+      createdAt: new Date(createdAt),
+      documents: Object.entries(documents).map(([file, content]) => ({ path: file, content })),
+    }),
+  );
+}
+
+const indexFile = (): string => path.join(snapshotsDir, 'index.json');
+
+describe('SnapshotStore index', () => {
+  it('keeps an entry per saved snapshot, oldest first', async () => {
+    await save('2025-03-02T10:00:00.000Z', { 'b.md': 'B' }, 'watch');
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+
+    expect(await store.readIndex()).toEqual([
+      expect.objectContaining({
+        id: '2025-03-01T100000000Z',
+        file: path.join('2025', '03', '01', 'snapshot_2025-03-01T100000000Z.json'),
+        trigger: 'manual',
+        documents: ['a.md'],
+      }),
+      expect.objectContaining({ id: '2025-03-02T100000000Z', trigger: 'watch' }),
+    ]);
+  });
+
+  it('filters snapshots by date, trigger and document', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await save('2025-03-02T10:00:00.000Z', { 'a.md': 'A', 'b.md': 'B' }, 'watch');
+    await save('2025-03-03T10:00:00.000Z', { 'b.md': 'B2' });
+
+    const ids = async (query: Parameters<SnapshotStore['query']>[0]): Promise<string[]> =>
+      (await store.query(query)).map(entry => entry.id.slice(0, 10));
+
+    expect(await ids({ since: new Date('2025-03-02T00:00:00.000Z') })).toEqual([
+      '2025-03-02',
+      '2025-03-03',
+    ]);
+    expect(await ids({ until: new Date('2025-03-01T23:59:59.999Z') })).toEqual(['2025-03-01']);
+    expect(await ids({ trigger: 'watch' })).toEqual(['2025-03-02']);
+    expect(await ids({ document: 'b.md' })).toEqual(['2025-03-02', '2025-03-03']);
+  });
+
+  it('reads a missing index from the manifests without writing it', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await fs.rm(indexFile());
+
+    expect((await store.readIndex()).map(entry => entry.id)).toEqual(['2025-03-01T100000000Z']);
+    await expect(fs.access(indexFile())).rejects.toThrow();
+  });
+
+  it('plans no changes when a dry run reads a missing index', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await fs.rm(indexFile());
+    fsPlan.setDryRun(true);
+
+    await store.query({ trigger: 'manual' });
+
+    expect(fsPlan.takePlannedChanges()).toEqual([]);
+  });
+
+  it('writes the index again when it is rebuilt or the store changes', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await fs.writeFile(indexFile(), 'not json');
+
+    await store.rebuildIndex();
+    expect(JSON.parse(await fs.readFile(indexFile(), 'utf-8')).snapshots).toHaveLength(1);
+
+    await fs.rm(indexFile());
+    await save('2025-03-02T10:00:00.000Z', { 'a.md': 'A2' });
+    expect(JSON.parse(await fs.readFile(indexFile(), 'utf-8')).snapshots).toHaveLength(2);
+  });
+});
+
+describe('SnapshotStore.readManifest', () => {
+  it('points snapshots in older formats to snapshot migrate', async () => {
+    const file = path.join(snapshotsDir, 'snapshot_old.json');
+    await fs.writeFile(file, JSON.stringify({ timestamp: '2024-05-01T08:30:00.000Z' }));
+
+    await expect(store.readManifest(file)).rejects.toThrow('run `mementor snapshot migrate`');
+  });
+
+  it('rejects format versions it does not know', async () => {
+    const file = await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    const manifest = JSON.parse(await fs.readFile(file, 'utf-8'));
+    await fs.writeFile(file, JSON.stringify({ ...manifest, version: 99 }));
+
+    await expect(store.readManifest(file)).rejects.toThrow(
+      'unsupported snapshot format version 99, expected 2',
+    );
+  });
+});
+
+describe('SnapshotStore objects', () => {
+  const objectFiles = async (): Promise<string[]> =>
+    (await fs.readdir(path.join(snapshotsDir, 'objects'), { recursive: true })).filter(
+      entry => path.dirname(entry) !== '.',
+    );
+
+  it('stores each distinct document content once, named by its hash', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A', 'b.md': 'B' });
+    await save('2025-03-02T10:00:00.000Z', { 'a.md': 'A', 'copy.md': 'B' });
+
+    const hash = hashContent('A');
+    expect(await objectFiles()).toHaveLength(2);
+    expect(await fs.readFile(store.objectPath(hash), 'utf-8')).toBe('A');
+    expect(store.objectPath(hash)).toBe(
+      path.join(snapshotsDir, 'objects', hash.slice(0, 2), hash.slice(2)),
+    );
+  });
+
+  it('loads snapshots with the content of their documents', async () => {
+    const file = await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+
+    const manifest = await store.readManifest(file);
+    expect(manifest.documents).toEqual([{ path: 'a.md', object: hashContent('A') }]);
+    expect((await store.load(file)).documents).toEqual([{ path: 'a.md', content: 'A' }]);
+  });
+
+  it('reports a snapshot whose object is missing', async () => {
+    const file = await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await fs.rm(store.objectPath(hashContent('A')));
+
+    await expect(store.load(file)).rejects.toThrow(
+      `object ${hashContent('A')} for a.md is missing`,
+    );
+  });
+
+  it('removes objects no snapshot refers to and keeps shared ones', async () => {
+    await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A', 'b.md': 'old' });
+    await save('2025-03-02T10:00:00.000Z', { 'a.md': 'A', 'b.md': 'new' });
+    await store.remove((await store.readIndex()).slice(0, 1));
+
+    expect(await store.gc()).toEqual({ removed: [hashContent('old')], kept: 2 });
+    expect(await objectFiles()).toHaveLength(2);
+    await expect(fs.access(path.dirname(store.objectPath(hashContent('old'))))).rejects.toThrow();
+  });
+
+  it('removes nothing while a snapshot cannot be read', async () => {
+    const file = await save('2025-03-01T10:00:00.000Z', { 'a.md': 'A' });
+    await save('2025-03-02T10:00:00.000Z', { 'a.md': 'B' });
+    await fs.writeFile(file, '{');
+
+    await expect(store.gc()).rejects.toThrow();
+    expect(await objectFiles()).toHaveLength(2);
+  });
+});
+
+describe('snapshot labels', () => {
+  it('normalizes labels to lower case words joined by dashes', () => {
+    expect(normalizeLabel('  Pre-release 2.0 ')).toBe('pre-release-2.0');
+    expect(normalizeLabel('Before / After')).toBe('before-after');
+    expect(() => normalizeLabel(' // ')).toThrow('Invalid label " // "');
+  });
+
+  it('finds snapshots by label, also when resolving a reference', async () => {
+    const file = await store.save(
+      createSnapshot({
+        trigger: 'manual',
+        label: 'Release 1.0',
+        createdAt: new Date('2025-03-01T10:00:00.000Z'),
+        documents: [],
+      }),
+    );
+
+    expect(await store.findByLabel('release 1.0')).toMatchObject({ label: 'release-1.0' });
+    expect(await store.resolve('release-1.0')).toBe(file);
+    expect(await store.query({ label: 'RELEASE 1.0' })).toHaveLength(1);
+  });
+
+  it('refuses to save a second snapshot with the same label', async () => {
+    const labelled = (createdAt: string): ReturnType<typeof createSnapshot> =>
+      createSnapshot({
+        trigger: 'manual',
+        label: 'v1',
+        createdAt: new Date(createdAt),
+        documents: [],
+      });
+    await store.save(labelled('2025-03-01T10:00:00.000Z'));
+
+    await expect(store.save(labelled('2025-03-02T10:00:00.000Z'))).rejects.toThrow(
+      'Label "v1" is already used by snapshot 2025-03-01T100000000Z',
+    );
+  });
+
+  it('sets, moves and removes labels and notes', async () => {
+    const first = await save('2025-03-01T10:00:00.000Z', {});
+    const second = await save('2025-03-02T10:00:00.000Z', {});
+
+    await store.annotate(first, { label: 'Stable', note: 'Before the rewrite' });
+    expect(await store.readManifest(first)).toMatchObject({
+      label: 'stable',
+      note: 'Before the rewrite',
+    });
+
+    await expect(store.annotate(second, { label: 'stable' })).rejects.toThrow(
+      'use --force to move it',
+    );
+    await store.annotate(second, { label: 'stable', force: true });
+    expect((await store.readManifest(first)).label).toBeUndefined();
+    expect((await store.findByLabel('stable'))?.id).toBe('2025-03-02T100000000Z');
+
+    await store.annotate(second, { label: null, note: null });
+    expect(await store.readManifest(second)).not.toHaveProperty('label');
+    expect(await store.readManifest(second)).not.toHaveProperty('note');
+    expect(await store.findByLabel('stable')).toBeUndefined();
+  });
+});
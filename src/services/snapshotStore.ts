@@ -0,0 +1,528 @@
+import crypto from 'crypto';
+import path from 'path';
+import { glob } from 'glob';
+import {
+  Snapshot,
+  SnapshotChange,
+  SnapshotDocument,
+  SnapshotGitInfo,
+  SnapshotTrigger,
+} from '../types';
+import { HealthMetrics } from './templateRenderer';
+import * as fsPlan from '../core/file-plan';
+
+export const SNAPSHOT_FORMAT = 'mementor-snapshot';
+export const SNAPSHOT_FORMAT_VERSION = 2;
+
+// Version 1 snapshots hold the documents inline, they are still read
+const INLINE_FORMAT_VERSION = 1;
+const OBJECTS_DIR = 'objects';
+const INDEX_FILE = 'index.json';
+const INDEX_VERSION = 1;
+
+/**
+ * Thrown when a file is not a snapshot in the current format.
+ */
+export class SnapshotFormatError extends Error {
+  constructor(
+    public readonly file: string,
+    message: string,
+  ) {
+    super(`${file}: ${message}`);
+    this.name = 'SnapshotFormatError';
+  }
+}
+
+/**
+ * A snapshot as it is stored on disk: each document refers to the object holding its content.
+ */
+export interface SnapshotManifest extends Omit<Snapshot, 'documents'> {
+  documents: Array<{ path: string; object: string; metrics?: SnapshotDocument['metrics'] }>;
+}
+
+/**
+ * Summary of a stored snapshot kept in `<snapshotsDir>/index.json`, so snapshots can be
+ * listed and filtered without reading every manifest.
+ */
+export interface SnapshotIndexEntry {
+  id: string;
+  createdAt: string;
+  trigger: SnapshotTrigger;
+  sessionId?: string;
+  label?: string;
+  commit?: string;
+  /** Manifest location relative to the snapshots directory */
+  file: string;
+  documents: string[];
+  metrics?: Pick<
+    HealthMetrics,
+    'word_count' | 'section_count' | 'todo_count' | 'completion_percentage'
+  >;
+}
+
+export interface SnapshotQuery {
+  since?: Date;
+  until?: Date;
+  label?: string;
+  trigger?: SnapshotTrigger;
+  document?: string;
+}
+
+/**
+ * Changes to the label and note of a snapshot. `null` removes the value, `undefined`
+ * leaves it unchanged.
+ */
+export interface SnapshotAnnotation {
+  label?: string | null;
+  note?: string | null;
+  force?: boolean;
+}
+
+export interface GarbageCollection {
+  removed: string[];
+  kept: number;
+}
+
+export interface NewSnapshot {
+  trigger: SnapshotTrigger;
+  documents: SnapshotDocument[];
+  changes?: SnapshotChange[];
+  metrics?: HealthMetrics;
+  sessionId?: string;
+  label?: string;
+  note?: string;
+  git?: SnapshotGitInfo;
+  createdAt?: Date;
+}
+
+/**
+ * Builds the snapshot id for a point in time: the ISO timestamp without `:` and `.`,
+ * so ids sort chronologically and can be used in file names.
+ */
+export function createSnapshotId(date: Date): string {
+  return date.toISOString().replace(/[:.]/g, '');
+}
+
+/**
+ * Converts a snapshot id back into the time it was taken.
+ */
+export function parseSnapshotId(id: string): Date | null {
+  const match = id.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})(\d{2})(\d{2})(\d{3})Z$/);
+  if (!match) return null;
+  const [, day, hours, minutes, seconds, millis] = match;
+  const date = new Date(`${day}T${hours}:${minutes}:${seconds}.${millis}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Returns the first and last moment of a `YYYY-MM-DD` day in UTC, the time zone snapshot ids
+ * and storage locations use.
+ */
+export function utcDayRange(date: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(n => n.padStart(2, '0'));
+  const start = new Date(`${year}-${month}-${day}T00:00:00.000Z`);
+  if (isNaN(start.getTime())) {
+    throw new Error(`Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+  return { start, end: new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1) };
+}
+
+/**
+ * Turns a label into the form snapshots are referred to by: lower case, with runs of
+ * whitespace and other separators replaced by `-`, e.g. `Pre-release 2.0` becomes
+ * `pre-release-2.0`.
+ */
+export function normalizeLabel(label: string): string {
+  const normalized = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  if (!normalized) {
+    throw new Error(`Invalid label "${label}", use letters, digits, ".", "_" or "-"`);
+  }
+  return normalized;
+}
+
+/**
+ * Creates a snapshot in the current format.
+ */
+export function createSnapshot(input: NewSnapshot): Snapshot {
+  const createdAt = input.createdAt ?? new Date();
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_FORMAT_VERSION,
+    id: createSnapshotId(createdAt),
+    createdAt: createdAt.toISOString(),
+    trigger: input.trigger,
+    ...(input.sessionId ? { sessionId: input.sessionId } : {}),
+    ...(input.label ? { label: normalizeLabel(input.label) } : {}),
+    ...(input.note ? { note: input.note } : {}),
+    ...(input.git ? { git: input.git } : {}),
+    changes: input.changes ?? [],
+    ...(input.metrics ? { metrics: input.metrics } : {}),
+    documents: input.documents,
+  };
+}
+
+/**
+ * Hashes document content into the name of the object it is stored in.
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+/**
+ * Reads and writes snapshots. Each snapshot is a JSON manifest stored as
+ * `<snapshotsDir>/YYYY/MM/DD/snapshot_<id>.json`, with the date taken from the id (UTC).
+ * Document content is stored once per distinct content in `<snapshotsDir>/objects/ab/cdef…`,
+ * named by its SHA-256 hash, and manifests refer to it by hash.
+ */
+export class SnapshotStore {
+  constructor(private snapshotsDir: string) {}
+
+  /**
+   * Returns where a snapshot is stored.
+   */
+  pathFor(snapshot: Pick<Snapshot, 'id' | 'createdAt'>): string {
+    const [year, month, day] = snapshot.createdAt.slice(0, 10).split('-');
+    return path.join(this.snapshotsDir, year, month, day, `snapshot_${snapshot.id}.json`);
+  }
+
+  /**
+   * Returns where the object with the given hash is stored.
+   */
+  objectPath(hash: string): string {
+    return path.join(this.snapshotsDir, OBJECTS_DIR, hash.slice(0, 2), hash.slice(2));
+  }
+
+  /**
+   * Writes the snapshot manifest, storing document content that is not stored yet.
+   */
+  async save(snapshot: Snapshot): Promise<string> {
+    if (snapshot.label) {
+      const owner = await this.findByLabel(snapshot.label);
+      if (owner && owner.id !== snapshot.id) {
+        throw new Error(`Label "${snapshot.label}" is already used by snapshot ${owner.id}`);
+      }
+    }
+
+    const documents: SnapshotManifest['documents'] = [];
+    for (const doc of snapshot.documents) {
+      const object = await this.writeObject(doc.content);
+      documents.push({ path: doc.path, object, ...(doc.metrics ? { metrics: doc.metrics } : {}) });
+    }
+
+    const manifest: SnapshotManifest = {
+      ...snapshot,
+      version: SNAPSHOT_FORMAT_VERSION,
+      documents,
+    };
+
+    const file = this.pathFor(snapshot);
+    await fsPlan.mkdir(path.dirname(file));
+    await fsPlan.writeFile(file, JSON.stringify(manifest, null, 2) + '\n');
+
+    const entries = (await this.readIndex()).filter(entry => entry.id !== snapshot.id);
+    await this.writeIndex([...entries, this.toIndexEntry(manifest, file)]);
+    return file;
+  }
+
+  /**
+   * Reads a snapshot together with the content of its documents.
+   */
+  async load(file: string): Promise<Snapshot> {
+    const manifest = await this.readManifest(file);
+    if (manifest.version === INLINE_FORMAT_VERSION) {
+      return manifest as unknown as Snapshot;
+    }
+
+    const documents: SnapshotDocument[] = [];
+    for (const doc of manifest.documents) {
+      if (typeof doc.object !== 'string') {
+        throw new SnapshotFormatError(file, `document ${doc.path} does not refer to an object`);
+      }
+      const content = await fsPlan.readFile(this.objectPath(doc.object)).catch(() => {
+        throw new SnapshotFormatError(file, `object ${doc.object} for ${doc.path} is missing`);
+      });
+      documents.push({ path: doc.path, content, ...(doc.metrics ? { metrics: doc.metrics } : {}) });
+    }
+
+    return { ...manifest, documents };
+  }
+
+  /**
+   * Reads a snapshot manifest without the content of its documents.
+   */
+  async readManifest(file: string): Promise<SnapshotManifest> {
+    const content = await fsPlan.readFile(file);
+
+    let parsed: Partial<SnapshotManifest> = {};
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      // Markdown snapshots from older versions, reported below
+    }
+
+    if (parsed?.format !== SNAPSHOT_FORMAT) {
+      throw new SnapshotFormatError(
+        file,
+        'not a snapshot in the current format, run `mementor snapshot migrate` to convert it',
+      );
+    }
+    if (parsed.version !== SNAPSHOT_FORMAT_VERSION && parsed.version !== INLINE_FORMAT_VERSION) {
+      throw new SnapshotFormatError(
+        file,
+        `unsupported snapshot format version ${parsed.version}, expected ${SNAPSHOT_FORMAT_VERSION}`,
+      );
+    }
+    if (!parsed.id || !parsed.createdAt || !Array.isArray(parsed.documents)) {
+      throw new SnapshotFormatError(file, 'snapshot is missing its id, createdAt or documents');
+    }
+
+    return parsed as SnapshotManifest;
+  }
+
+  /**
+   * Lists the stored snapshot files, oldest first.
+   */
+  async list(): Promise<string[]> {
+    const files = await glob('**/snapshot_*.json', {
+      cwd: this.snapshotsDir,
+      absolute: true,
+      ignore: `${OBJECTS_DIR}/**`,
+    });
+    const snapshots = files
+      .filter(file => parseSnapshotId(this.idFromPath(file)) !== null)
+      .sort((a, b) => this.idFromPath(a).localeCompare(this.idFromPath(b)));
+
+    if (!fsPlan.isDryRun()) return snapshots;
+    // Leave out snapshots that the dry run has already removed
+    const exists = await Promise.all(snapshots.map(file => fsPlan.exists(file)));
+    return snapshots.filter((_, index) => exists[index]);
+  }
+
+  /**
+   * Finds a snapshot file by id, by label, by path relative to the snapshots directory,
+   * or by path.
+   */
+  async resolve(reference: string): Promise<string> {
+    const byId = (await this.list()).find(file => this.idFromPath(file) === reference);
+    if (byId) return byId;
+
+    const byLabel = await this.findByLabel(reference);
+    if (byLabel) return path.join(this.snapshotsDir, byLabel.file);
+
+    for (const candidate of [path.resolve(this.snapshotsDir, reference), path.resolve(reference)]) {
+      try {
+        await fsPlan.readFile(candidate);
+        return candidate;
+      } catch {
+        // Try the next candidate
+      }
+    }
+
+    throw new Error(`Snapshot "${reference}" not found in ${this.snapshotsDir}`);
+  }
+
+  async latest(): Promise<Snapshot | null> {
+    const files = await this.list();
+    return files.length > 0 ? this.load(files[files.length - 1]) : null;
+  }
+
+  /**
+   * Returns the index entries of the stored snapshots, oldest first. When the index is
+   * missing or unreadable the entries are read from the manifests instead, and the index
+   * is written again by the next change to the store.
+   */
+  async readIndex(): Promise<SnapshotIndexEntry[]> {
+    try {
+      const parsed = JSON.parse(await fsPlan.readFile(this.indexPath()));
+      if (parsed.version === INDEX_VERSION && Array.isArray(parsed.snapshots)) {
+        return parsed.snapshots;
+      }
+    } catch {
+      // Missing or damaged, read from the manifests below
+    }
+    return this.scanManifests();
+  }
+
+  /**
+   * Recreates the index from the snapshot manifests. Manifests that cannot be read are left out.
+   */
+  async rebuildIndex(): Promise<SnapshotIndexEntry[]> {
+    const entries = await this.scanManifests();
+    await this.writeIndex(entries);
+    return entries;
+  }
+
+  /**
+   * Finds the snapshots matching every given filter, oldest first.
+   */
+  async query(query: SnapshotQuery = {}): Promise<SnapshotIndexEntry[]> {
+    return (await this.readIndex()).filter(entry => {
+      const createdAt = new Date(entry.createdAt);
+      if (query.since && createdAt < query.since) return false;
+      if (query.until && createdAt > query.until) return false;
+      if (query.label && entry.label !== normalizeLabel(query.label)) return false;
+      if (query.trigger && entry.trigger !== query.trigger) return false;
+      if (query.document && !entry.documents.includes(query.document)) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Returns the snapshot with the given label, if any.
+   */
+  async findByLabel(label: string): Promise<SnapshotIndexEntry | undefined> {
+    let normalized: string;
+    try {
+      normalized = normalizeLabel(label);
+    } catch {
+      return undefined;
+    }
+    return (await this.readIndex()).find(entry => entry.label === normalized);
+  }
+
+  /**
+   * Sets or removes the label and note of a stored snapshot. A label that another snapshot
+   * already has is only moved to this snapshot when `force` is set.
+   */
+  async annotate(file: string, changes: SnapshotAnnotation): Promise<SnapshotManifest> {
+    const manifest = await this.readManifest(file);
+    const updated: SnapshotManifest = { ...manifest };
+
+    if (changes.label !== undefined) {
+      delete updated.label;
+      if (changes.label !== null) {
+        updated.label = normalizeLabel(changes.label);
+        const owner = await this.findByLabel(updated.label);
+        if (owner && owner.id !== manifest.id) {
+          if (!changes.force) {
+            throw new Error(
+              `Label "${updated.label}" is already used by snapshot ${owner.id}, use --force to move it`,
+            );
+          }
+          await this.annotate(path.join(this.snapshotsDir, owner.file), { label: null });
+        }
+      }
+    }
+    if (changes.note !== undefined) {
+      delete updated.note;
+      if (changes.note !== null) updated.note = changes.note;
+    }
+
+    await fsPlan.writeFile(file, JSON.stringify(updated, null, 2) + '\n');
+    const entries = (await this.readIndex()).filter(entry => entry.id !== manifest.id);
+    await this.writeIndex([...entries, this.toIndexEntry(updated, file)]);
+    return updated;
+  }
+
+  /**
+   * Deletes stored snapshots and their index entries. Their objects are left for {@link gc}.
+   */
+  async remove(entries: SnapshotIndexEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await fsPlan.remove(path.join(this.snapshotsDir, entry.file));
+    }
+    const ids = new Set(entries.map(entry => entry.id));
+    await this.writeIndex((await this.readIndex()).filter(entry => !ids.has(entry.id)));
+  }
+
+  /**
+   * Removes objects that no snapshot refers to and rewrites the index. Nothing is removed
+   * when a snapshot cannot be read, since the objects it refers to are unknown.
+   */
+  async gc(): Promise<GarbageCollection> {
+    const referenced = new Set<string>();
+    const entries: SnapshotIndexEntry[] = [];
+    for (const file of await this.list()) {
+      const manifest = await this.readManifest(file);
+      manifest.documents.forEach(doc => referenced.add(doc.object));
+      entries.push(this.toIndexEntry(manifest, file));
+    }
+    // Every manifest was read anyway, so the index is brought up to date too
+    await this.writeIndex(entries);
+
+    const objects = await glob('*/*', { cwd: path.join(this.snapshotsDir, OBJECTS_DIR) });
+    const hashes = objects.map(object => object.split(/[\\/]/).join('')).sort();
+    const removed = hashes.filter(hash => !referenced.has(hash));
+    const kept = hashes.filter(hash => referenced.has(hash));
+
+    for (const hash of removed) {
+      await fsPlan.remove(this.objectPath(hash));
+    }
+
+    // Drop prefix directories that no longer hold any object
+    for (const prefix of new Set(removed.map(hash => hash.slice(0, 2)))) {
+      if (!kept.some(hash => hash.startsWith(prefix))) {
+        await fsPlan.remove(path.join(this.snapshotsDir, OBJECTS_DIR, prefix));
+      }
+    }
+
+    return { removed, kept: kept.length };
+  }
+
+  private async scanManifests(): Promise<SnapshotIndexEntry[]> {
+    const entries: SnapshotIndexEntry[] = [];
+    for (const file of await this.list()) {
+      try {
+        entries.push(this.toIndexEntry(await this.readManifest(file), file));
+      } catch (error) {
+        console.warn('⚠️  Skipping snapshot:', error instanceof Error ? error.message : error);
+      }
+    }
+    return entries;
+  }
+
+  private indexPath(): string {
+    return path.join(this.snapshotsDir, INDEX_FILE);
+  }
+
+  private async writeIndex(entries: SnapshotIndexEntry[]): Promise<void> {
+    const snapshots = [...entries].sort((a, b) => a.id.localeCompare(b.id));
+    await fsPlan.mkdir(this.snapshotsDir);
+    await fsPlan.writeFile(
+      this.indexPath(),
+      JSON.stringify({ version: INDEX_VERSION, snapshots }, null, 2) + '\n',
+    );
+  }
+
+  private toIndexEntry(manifest: SnapshotManifest, file: string): SnapshotIndexEntry {
+    const { metrics } = manifest;
+    return {
+      id: manifest.id,
+      createdAt: manifest.createdAt,
+      trigger: manifest.trigger,
+      ...(manifest.sessionId ? { sessionId: manifest.sessionId } : {}),
+      ...(manifest.label ? { label: manifest.label } : {}),
+      ...(manifest.git ? { commit: manifest.git.commit } : {}),
+      file: path.relative(this.snapshotsDir, file).split(path.sep).join('/'),
+      documents: manifest.documents.map(doc => doc.path),
+      ...(metrics
+        ? {
+            metrics: {
+              word_count: metrics.word_count,
+              section_count: metrics.section_count,
+              todo_count: metrics.todo_count,
+              completion_percentage: metrics.completion_percentage,
+            },
+          }
+        : {}),
+    };
+  }
+
+  private async writeObject(content: string): Promise<string> {
+    const hash = hashContent(content);
+    const file = this.objectPath(hash);
+    if (!(await fsPlan.exists(file))) {
+      await fsPlan.mkdir(path.dirname(file));
+      await fsPlan.writeFile(file, content);
+    }
+    return hash;
+  }
+
+  private idFromPath(file: string): string {
+    return path.basename(file, '.json').replace(/^snapshot_/, '');
+  }
+}
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { getDefaultConfig } from '../core/config';
+import { documentCovers, measureStaleness, staleScore } from './staleness';
+
+describe('staleScore', () => {
+  it('adds 10 points per commit and 1 point per day, up to 100', () => {
+    expect(staleScore(0, 30)).toBe(0);
+    expect(staleScore(1, 0)).toBe(10);
+    expect(staleScore(3, 4)).toBe(34);
+    expect(staleScore(8, 40)).toBe(100);
+  });
+});
+
+describe('documentCovers', () => {
+  const config = getDefaultConfig('/project');
+  config.health.covers = [{ document: 'structure.md', paths: ['src/core', 'src/cli.ts'] }];
+
+  it('combines front matter and configured paths without duplicates', () => {
+    const content = '---\ncovers:\n  - src/core\n  - " src/services "\n---\n# Structure\n';
+
+    expect(documentCovers(config, 'structure.md', content)).toEqual([
+      'src/core',
+      'src/services',
+      'src/cli.ts',
+    ]);
+  });
+
+  it('accepts a single path and ignores invalid front matter', () => {
+    expect(documentCovers(config, 'tech.md', '---\ncovers: package.json\n---\n')).toEqual([
+      'package.json',
+    ]);
+    expect(documentCovers(config, 'tech.md', '---\ncovers: [unclosed\n---\n')).toEqual([]);
+  });
+});
+
+describe('measureStaleness', () => {
+  let root: string;
+  let documentPath: string;
+
+  async function commit(file: string, content: string, date: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+    const git = simpleGit(root).env({
+      ...process.env,
+      GIT_AUTHOR_DATE: date,
+      GIT_COMMITTER_DATE: date,
+    });
+    await git.add(file);
+    await git.commit(`Update ${file}`);
+  }
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-stale-')));
+    documentPath = path.join(root, 'docs', 'context', 'structure.md');
+    const git = simpleGit(root);
+    await git.init();
+    await git.addConfig('user.name', 'Test');
+    await git.addConfig('user.email', 'test@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('counts the commits and days the covered code moved on since the document', async () => {
+    await commit('src/core/a.ts', 'a', '2025-03-01T10:00:00Z');
+    await commit('docs/context/structure.md', '# Structure\n', '2025-03-02T10:00:00Z');
+    await commit('src/core/a.ts', 'a2', '2025-03-04T10:00:00Z');
+    await commit('src/other.ts', 'other', '2025-03-05T10:00:00Z');
+    await commit('src/core/b.ts', 'b', '2025-03-07T12:00:00Z');
+
+    expect(await measureStaleness(root, documentPath, ['src/core'])).toEqual({
+      document: 'structure.md',
+      covers: ['src/core'],
+      lastChanged: '2025-03-02T10:00:00+00:00',
+      commits: 2,
+      days: 5,
+      score: 25,
+    });
+  });
+
+  it('counts documents with uncommitted changes as up to date', async () => {
+    await commit('docs/context/structure.md', '# Structure\n', '2025-03-02T10:00:00Z');
+    await commit('src/core/a.ts', 'a', '2025-03-04T10:00:00Z');
+    await fs.writeFile(documentPath, '# Structure\n\nUpdated\n');
+
+    expect(await measureStaleness(root, documentPath, ['src/core'])).toMatchObject({
+      commits: 0,
+      score: 0,
+    });
+  });
+
+  it('measures nothing without covered paths or commits', async () => {
+    expect(await measureStaleness(root, documentPath, ['src'])).toBeUndefined();
+
+    await commit('src/core/a.ts', 'a', '2025-03-01T10:00:00Z');
+    expect(await measureStaleness(root, documentPath, [])).toBeUndefined();
+    // Never committed, so there is nothing to be behind of
+    expect(await measureStaleness(root, documentPath, ['src'])).toMatchObject({ score: 0 });
+  });
+});
@@ -0,0 +1,164 @@
+import path from 'path';
+import fm from 'front-matter';
+import { glob } from 'glob';
+import { simpleGit } from 'simple-git';
+import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import * as fsPlan from '../core/file-plan';
+
+/**
+ * How far the code a document describes has moved on since the document last changed.
+ * @property covers - Source paths the document describes
+ * @property lastChanged - When the document was last committed, undefined while it is not
+ * @property commits - Commits to the covered paths since then
+ * @property days - Days between the document's last commit and the newest of those commits
+ * @property score - From 0 (up to date) to 100, see `staleScore`
+ */
+export interface DocumentStaleness {
+  document: string;
+  covers: string[];
+  lastChanged?: string;
+  commits: number;
+  days: number;
+  score: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Scores how stale a document is: 10 points per commit to the covered code and 1 point per
+ * day the newest of them came after the document, up to 100.
+ */
+export function staleScore(commits: number, days: number): number {
+  return commits === 0 ? 0 : Math.min(100, commits * 10 + days);
+}
+
+/**
+ * Collects the source paths a document covers from its `covers` front matter, a path or a
+ * list of paths, and from the `health.covers` configuration.
+ * @param config - Project configuration
+ * @param document - Document name in the docs directory
+ * @param content - Content of the document
+ */
+export function documentCovers(config: ProjectConfig, document: string, content: string): string[] {
+  let declared: unknown;
+  try {
+    declared = fm<{ covers?: unknown }>(content).attributes.covers;
+  } catch {
+    // Front matter that is not valid YAML declares nothing
+  }
+
+  const fromFrontMatter = (Array.isArray(declared) ? declared : [declared]).filter(
+    (entry): entry is string => typeof entry === 'string' && entry.trim() !== '',
+  );
+  const fromConfig = config.health.covers
+    .filter(entry => entry.document === document)
+    .flatMap(entry => entry.paths);
+
+  return [...new Set([...fromFrontMatter, ...fromConfig].map(entry => entry.trim()))];
+}
+
+/**
+ * Lists the files below the covered paths that git knows about or would add, relative to
+ * the project root.
+ * @param root - Project root
+ * @param covers - Covered paths
+ */
+export async function coveredFiles(root: string, covers: string[]): Promise<string[]> {
+  if (covers.length === 0) return [];
+  try {
+    const listing = await simpleGit(root).raw([
+      'ls-files',
+      '--cached',
+      '--others',
+      '--exclude-standard',
+      '--',
+      ...covers,
+    ]);
+    return listing.split('\n').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Measures how many commits and days the covered code changed since the document was last
+ * committed. A document with uncommitted changes counts as up to date.
+ * @param root - Project root, covered paths are relative to it
+ * @param documentPath - Path of the document
+ * @param covers - Covered paths
+ * @returns The staleness, or undefined when the document covers nothing, outside a git
+ *   repository or before the first commit
+ */
+export async function measureStaleness(
+  root: string,
+  documentPath: string,
+  covers: string[],
+): Promise<DocumentStaleness | undefined> {
+  if (covers.length === 0) return undefined;
+  const document = path.basename(documentPath);
+  const upToDate = { document, covers, commits: 0, days: 0, score: 0 };
+
+  try {
+    const git = simpleGit(root);
+    if (!(await git.checkIsRepo())) return undefined;
+    await git.revparse(['HEAD']);
+
+    const relative = path.relative(root, documentPath);
+    const [hash, date] = (await git.raw(['log', '-1', '--format=%H%x09%cI', '--', relative]))
+      .trim()
+      .split('\t');
+    if (!hash) return upToDate;
+
+    const status = await git.raw(['status', '--porcelain', '--', relative]);
+    if (status.trim() !== '') return { ...upToDate, lastChanged: date };
+
+    const log = await git.raw(['log', '--format=%cI', `${hash}..HEAD`, '--', ...covers]);
+    const dates = log.split('\n').filter(Boolean);
+    const days =
+      dates.length > 0
+        ? Math.max(
+            0,
+            Math.floor((new Date(dates[0]).getTime() - new Date(date).getTime()) / DAY_MS),
+          )
+        : 0;
+
+    return {
+      document,
+      covers,
+      lastChanged: date,
+      commits: dates.length,
+      days,
+      score: staleScore(dates.length, days),
+    };
+  } catch {
+    // No commits yet, or git is not available
+    return undefined;
+  }
+}
+
+/**
+ * Finds the documents that cover a source file and measures how stale each of them is.
+ * @param config - Project configuration
+ * @param file - Path of the source file
+ * @returns The staleness of every document covering the file
+ */
+export async function documentsCovering(
+  config: ProjectConfig,
+  file: string,
+): Promise<DocumentStaleness[]> {
+  const { root, docsDir } = resolvePaths(config);
+  const relative = path.relative(root, file).split(path.sep).join('/');
+  const results: DocumentStaleness[] = [];
+
+  for (const document of (await glob('*.md', { cwd: docsDir })).sort()) {
+    const documentPath = path.join(docsDir, document);
+    const covers = documentCovers(config, document, await fsPlan.readFile(documentPath));
+    if (!(await coveredFiles(root, covers)).includes(relative)) continue;
+
+    const staleness = await measureStaleness(root, documentPath, covers);
+    if (staleness) results.push(staleness);
+  }
+
+  return results;
+}
@@ -0,0 +1,198 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { simpleGit } from 'simple-git';
+import { GitInfo, PackageInfo, TemplateData, TypeScriptInfo } from './templateRenderer';
+
+/**
+ * Supplies part of the data templates are rendered with by inspecting the project.
+ * A provider returns an empty object when its source is not present.
+ */
+export interface TemplateDataProvider {
+  name: string;
+  provide(root: string): Promise<Partial<TemplateData>>;
+}
+
+const STRICT_FLAGS = [
+  'noImplicitAny',
+  'strictNullChecks',
+  'strictFunctionTypes',
+  'strictBindCallApply',
+  'strictPropertyInitialization',
+  'noImplicitThis',
+  'alwaysStrict',
+  'useUnknownInCatchVariables',
+];
+
+async function readJson(file: string): Promise<Record<string, unknown> | null> {
+  try {
+    return JSON.parse(stripJsonComments(await fs.readFile(file, 'utf-8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Removes comments and trailing commas so tsconfig-style JSON can be parsed.
+ */
+function stripJsonComments(content: string): string {
+  return content
+    .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (match, literal) => literal ?? '')
+    .replace(/,(\s*[}\]])/g, '$1');
+}
+
+function toEntries(record: unknown): Array<{ name: string; version: string }> {
+  return Object.entries((record as Record<string, string>) || {}).map(([name, version]) => ({
+    name,
+    version,
+  }));
+}
+
+/**
+ * Reads workspaces in either the array form or the `{ packages: [...] }` form used by yarn.
+ */
+function toWorkspaces(workspaces: unknown): string[] {
+  const list = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces as { packages?: unknown } | undefined)?.packages;
+  return Array.isArray(list) ? list.map(String) : [];
+}
+
+export class PackageJsonProvider implements TemplateDataProvider {
+  name = 'package.json';
+
+  async provide(root: string): Promise<Partial<TemplateData>> {
+    const pkg = await readJson(path.join(root, 'package.json'));
+    if (!pkg) return {};
+
+    const info: PackageInfo = {
+      name: String(pkg.name ?? path.basename(root)),
+      version: String(pkg.version ?? '0.0.0'),
+      description: String(pkg.description ?? ''),
+      license: typeof pkg.license === 'string' ? pkg.license : undefined,
+      scripts: Object.entries((pkg.scripts as Record<string, string>) || {}).map(
+        ([name, command]) => ({ name, command }),
+      ),
+      dependencies: toEntries(pkg.dependencies),
+      dev_dependencies: toEntries(pkg.devDependencies),
+      workspaces: toWorkspaces(pkg.workspaces),
+    };
+
+    const engines = (pkg.engines as Record<string, string>) || {};
+    const envItems = [engines.node ? `Node.js ${engines.node}` : 'Node.js'];
+    const typescript = [...info.dependencies, ...info.dev_dependencies].find(
+      dep => dep.name === 'typescript',
+    );
+    if (typescript) envItems.push(`TypeScript ${typescript.version}`);
+
+    return {
+      project_description: info.description || undefined,
+      package: info,
+      env_items: envItems,
+    };
+  }
+}
+
+export class TsconfigProvider implements TemplateDataProvider {
+  name = 'tsconfig.json';
+
+  async provide(root: string): Promise<Partial<TemplateData>> {
+    const tsconfig = await readJson(path.join(root, 'tsconfig.json'));
+    if (!tsconfig) return {};
+
+    const options = (tsconfig.compilerOptions as Record<string, unknown>) || {};
+    const strict = options.strict === true;
+    const info: TypeScriptInfo = {
+      target: String(options.target ?? 'ES3'),
+      module: String(options.module ?? 'CommonJS'),
+      strict,
+      // With strict enabled individual flags are only listed when explicitly turned off
+      strict_flags: STRICT_FLAGS.filter(flag =>
+        strict ? options[flag] === false : options[flag] === true,
+      ),
+    };
+
+    return { typescript: info };
+  }
+}
+
+export class GitProvider implements TemplateDataProvider {
+  name = 'git';
+
+  async provide(root: string): Promise<Partial<TemplateData>> {
+    const git = simpleGit(root);
+    if (!(await git.checkIsRepo())) return {};
+
+    const info: GitInfo = { contributors: [] };
+
+    const remotes = await git.getRemotes(true);
+    const origin = remotes.find(remote => remote.name === 'origin') ?? remotes[0];
+    info.remote = origin?.refs.fetch || undefined;
+
+    try {
+      const head = await git.raw(['symbolic-ref', '--short', 'refs/remotes/origin/HEAD']);
+      info.default_branch = head.trim().replace(/^origin\//, '');
+    } catch {
+      // No remote HEAD, fall back to the current branch
+      info.default_branch = (await git.branchLocal()).current || undefined;
+    }
+
+    try {
+      const shortlog = await git.raw(['shortlog', '-sne', 'HEAD']);
+      info.contributors = shortlog
+        .split('\n')
+        .map(line => line.match(/^\s*(\d+)\s+(.+?)(?:\s+<([^>]+)>)?$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => ({ name: match[2], email: match[3], commits: parseInt(match[1], 10) }))
+        .slice(0, 10);
+    } catch {
+      // Repository without commits
+    }
+
+    return { git: info };
+  }
+}
+
+export const defaultDataProviders: TemplateDataProvider[] = [
+  new PackageJsonProvider(),
+  new TsconfigProvider(),
+  new GitProvider(),
+];
+
+/**
+ * Runs every provider against the project and merges their results.
+ * A failing provider is reported and skipped so one bad source does not block rendering.
+ * @param root - Project root directory
+ * @param providers - Providers to run, later providers override earlier ones
+ */
+export async function collectTemplateData(
+  root: string,
+  providers: TemplateDataProvider[] = defaultDataProviders,
+): Promise<Partial<TemplateData>> {
+  const data: Partial<TemplateData> = {};
+
+  for (const provider of providers) {
+    try {
+      const provided = await provider.provide(root);
+      for (const [key, value] of Object.entries(provided)) {
+        if (value !== undefined) {
+          (data as Record<string, unknown>)[key] = value;
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not read project data from ${provider.name}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+  }
+
+  if (data.typescript && data.env_items && !data.env_items.some(i => i.startsWith('TypeScript'))) {
+    data.env_items.push('TypeScript');
+  }
+  if (data.git) {
+    data.env_items = [...(data.env_items ?? ['Node.js']), 'Git'];
+  }
+
+  return data;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { TemplatePackRegistry } from './templatePacks';
+
+let root: string;
+let templatesDir: string;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'mementor-packs-'));
+  templatesDir = path.join(root, 'docs', 'templates');
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+async function writePack(dir: string, name: string): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, 'pack.json'), JSON.stringify({ name, description: name }));
+  await fs.writeFile(path.join(dir, 'notes.mustache'), '# {{project_name}}\n');
+}
+
+describe('TemplatePackRegistry.install', () => {
+  it('copies a pack into the project packs directory', async () => {
+    const source = path.join(root, 'team-pack');
+    await writePack(source, 'team');
+
+    const pack = await new TemplatePackRegistry(templatesDir).install(source);
+
+    expect(pack).toMatchObject({
+      name: 'team',
+      source: 'project',
+      dir: path.join(templatesDir, 'packs', 'team'),
+    });
+    expect(await fs.readFile(path.join(pack.dir, 'notes.mustache'), 'utf-8')).toBe(
+      '# {{project_name}}\n',
+    );
+  });
+
+  it('refuses to overwrite an installed pack without force', async () => {
+    const source = path.join(root, 'team-pack');
+    await writePack(source, 'team');
+    const registry = new TemplatePackRegistry(templatesDir);
+    await registry.install(source);
+
+    await expect(registry.install(source)).rejects.toThrow(
+      'Template pack "team" is already installed',
+    );
+  });
+
+  it('selects a pack that is already installed instead of copying it onto itself', async () => {
+    const installed = path.join(templatesDir, 'packs', 'team');
+    await writePack(installed, 'team');
+
+    const pack = await new TemplatePackRegistry(templatesDir).install(installed, { force: true });
+
+    expect(pack).toMatchObject({ name: 'team', source: 'project', dir: installed });
+    expect(await fs.readdir(installed)).toEqual(['notes.mustache', 'pack.json']);
+  });
+});
@@ -0,0 +1,172 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ProjectConfig } from '../types';
+import { resolvePaths } from '../core/paths';
+import * as fsPlan from '../core/file-plan';
+import { BUNDLED_TEMPLATES_DIR, TemplateData } from './templateRenderer';
+
+/**
+ * Contents of a pack's `pack.json`.
+ * @interface TemplatePackManifest
+ * @property {string} name - Name used to select the pack, e.g. `library`
+ * @property {string} description - One line summary shown by `mementor pack list`
+ * @property {Partial<TemplateData>} [data] - Default template data for documents rendered from the pack
+ */
+export interface TemplatePackManifest {
+  name: string;
+  description: string;
+  data?: Partial<TemplateData>;
+}
+
+/**
+ * A template pack available to the project.
+ * @interface TemplatePack
+ * @property {string} dir - Directory holding the pack's templates
+ * @property {'bundled' | 'project'} source - Whether the pack ships with Mementor or was installed
+ */
+export interface TemplatePack extends TemplatePackManifest {
+  dir: string;
+  source: 'bundled' | 'project';
+}
+
+export const BUNDLED_PACKS_DIR = path.join(BUNDLED_TEMPLATES_DIR, 'packs');
+
+const MANIFEST_FILE = 'pack.json';
+
+// A dry run only plans the copy of an installed pack, so it is read from its source instead
+const plannedInstalls = new Map<string, string>();
+
+/**
+ * Finds, lists and installs template packs. A pack is a directory with a `pack.json`
+ * and any number of templates that override or extend the bundled ones. Packs installed
+ * into the project's `templatesDir/packs` take precedence over bundled packs of the same name.
+ */
+export class TemplatePackRegistry {
+  private projectPacksDir: string;
+
+  constructor(templatesDir: string) {
+    this.projectPacksDir = path.join(templatesDir, 'packs');
+  }
+
+  private async readManifest(dir: string): Promise<TemplatePackManifest> {
+    const file = path.join(dir, MANIFEST_FILE);
+    let manifest: Partial<TemplatePackManifest>;
+    try {
+      manifest = JSON.parse(await fs.readFile(file, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`${dir} is not a template pack: ${MANIFEST_FILE} is missing`);
+      }
+      throw new Error(`Invalid ${file}: ${(error as Error).message}`);
+    }
+
+    if (typeof manifest.name !== 'string' || !/^[\w-]+$/.test(manifest.name)) {
+      throw new Error(`Invalid ${file}: "name" must contain only letters, digits, - and _`);
+    }
+
+    return {
+      name: manifest.name,
+      description: manifest.description ?? '',
+      data: manifest.data,
+    };
+  }
+
+  private async listDir(dir: string, source: TemplatePack['source']): Promise<TemplatePack[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      return [];
+    }
+
+    const packs: TemplatePack[] = [];
+    for (const entry of entries) {
+      const packDir = path.join(dir, entry);
+      try {
+        packs.push({ ...(await this.readManifest(packDir)), dir: packDir, source });
+      } catch {
+        // Not a pack, ignore stray files and folders
+      }
+    }
+    return packs;
+  }
+
+  private async listPlannedInstalls(): Promise<TemplatePack[]> {
+    const packs: TemplatePack[] = [];
+    for (const [targetDir, sourceDir] of plannedInstalls) {
+      if (path.dirname(targetDir) !== this.projectPacksDir) continue;
+      packs.push({ ...(await this.readManifest(sourceDir)), dir: sourceDir, source: 'project' });
+    }
+    return packs;
+  }
+
+  async list(): Promise<TemplatePack[]> {
+    const packs = new Map<string, TemplatePack>();
+    for (const pack of [
+      ...(await this.listDir(BUNDLED_PACKS_DIR, 'bundled')),
+      ...(await this.listDir(this.projectPacksDir, 'project')),
+      ...(await this.listPlannedInstalls()),
+    ]) {
+      packs.set(pack.name, pack);
+    }
+    return [...packs.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(name: string): Promise<TemplatePack> {
+    const packs = await this.list();
+    const pack = packs.find(p => p.name === name);
+    if (!pack) {
+      throw new Error(
+        `Unknown template pack "${name}". Available packs: ${packs.map(p => p.name).join(', ')}`,
+      );
+    }
+    return pack;
+  }
+
+  /**
+   * Copies a pack from a local directory into the project so it can be selected by name.
+   */
+  async install(sourceDir: string, options: { force?: boolean } = {}): Promise<TemplatePack> {
+    const manifest = await this.readManifest(sourceDir);
+    const targetDir = path.join(this.projectPacksDir, manifest.name);
+
+    // A pack that is already in the project is selected as it is, removing the target
+    // first would delete the source before it is copied
+    const relative = path.relative(path.resolve(this.projectPacksDir), path.resolve(sourceDir));
+    if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return this.get(manifest.name);
+    }
+
+    const exists = await fs
+      .access(targetDir)
+      .then(() => true)
+      .catch(() => false);
+    if (exists && !options.force) {
+      throw new Error(`Template pack "${manifest.name}" is already installed in ${targetDir}`);
+    }
+
+    await fsPlan.remove(targetDir);
+    await fsPlan.mkdir(path.dirname(targetDir));
+    await fsPlan.copyDirectory(sourceDir, targetDir);
+
+    if (fsPlan.isDryRun()) {
+      plannedInstalls.set(targetDir, sourceDir);
+      return { ...manifest, dir: sourceDir, source: 'project' };
+    }
+    return { ...manifest, dir: targetDir, source: 'project' };
+  }
+}
+
+/**
+ * Returns the project template directories to search before the bundled templates:
+ * the project's own `templatesDir` first, then the configured pack.
+ * @param {ProjectConfig} config - Project configuration
+ * @returns {Promise<{templateDirs: string[], pack: TemplatePack}>} Directories in precedence order and the active pack
+ */
+export async function resolveTemplateDirs(
+  config: ProjectConfig,
+): Promise<{ templateDirs: string[]; pack: TemplatePack }> {
+  const { templatesDir } = resolvePaths(config);
+  const pack = await new TemplatePackRegistry(templatesDir).get(config.templatePack);
+  return { templateDirs: [templatesDir, pack.dir], pack };
+}
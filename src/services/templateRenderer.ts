@@ -1,5 +1,6 @@
 import Mustache from 'mustache';
 import fs from 'fs/promises';
+import { Dirent } from 'fs';
 import path from 'path';
 
 export interface HealthMetrics {
@@ -16,20 +17,54 @@ export interface HealthMetrics {
   code_blocks: number;
   avg_section_length: number;
   readability_score: number;
+  grade_level?: number;
+  avg_sentence_length?: number;
+  avg_paragraph_length?: number;
+  readability_sections?: SectionReadabilityMetrics[];
   last_snapshot_delta: number;
 }
 
-export interface DocumentationMetadata {
+export interface SectionReadabilityMetrics {
+  title: string;
+  line: number;
+  readability_score: number;
+  grade_level: number;
+  avg_sentence_length: number;
+  difficult: boolean;
+}
+
+export interface PackageInfo {
+  name: string;
   version: string;
-  created_at: string;
-  updated_at: string;
+  description: string;
+  license?: string;
+  scripts: Array<{ name: string; command: string }>;
   dependencies: Array<{ name: string; version: string }>;
-  health_metrics?: HealthMetrics;
-  tags: string[];
+  dev_dependencies: Array<{ name: string; version: string }>;
+  workspaces: string[];
+}
+
+export interface TypeScriptInfo {
+  target: string;
+  module: string;
+  strict: boolean;
+  strict_flags: string[];
+}
+
+export interface GitInfo {
+  remote?: string;
+  default_branch?: string;
+  contributors: Array<{ name: string; email?: string; commits: number }>;
 }
 
 export interface TemplateData {
   project_name?: string;
+  project_description?: string;
+  project_type?: string;
+  directories?: Array<{ path: string; description: string }>;
+  package?: PackageInfo;
+  typescript?: TypeScriptInfo;
+  git?: GitInfo;
   decision_date?: string;
   decisions?: string[];
   next_steps?: Array<{
@@ -53,7 +88,6 @@ export interface TemplateData {
     name: string;
     version: string;
   }>;
-  metadata?: DocumentationMetadata;
   health_metrics?: HealthMetrics;
   next_actions?: string[];
   health_metrics_display?: {
@@ -67,63 +101,138 @@ export interface TemplateData {
   };
 }
 
+/**
+ * Directory holding the templates bundled with Mementor.
+ */
+export const BUNDLED_TEMPLATES_DIR = path.join(__dirname, '../templates/mustache');
+
+/**
+ * Matches a `{{! layout: name }}` pragma selecting the layout a template is wrapped in.
+ */
+const LAYOUT_PRAGMA = /\{\{!\s*layout:\s*([\w./-]+)\s*\}\}\n?/;
+
 export class TemplateRenderer {
-  private templateDir: string;
+  private templateDirs: string[];
+  private partials?: Promise<Record<string, string>>;
 
-  constructor() {
-    this.templateDir = path.join(__dirname, '../templates/mustache');
+  /**
+   * @param templateDirs - Project template directories, searched in order before the bundled
+   * templates, so a project can override a bundled template or add new ones
+   */
+  constructor(templateDirs: string[] = []) {
+    this.templateDirs = [...templateDirs, BUNDLED_TEMPLATES_DIR];
   }
 
-  private generateMetadataHeader(metadata: DocumentationMetadata): string {
-    const header = [
-      '=== MEMENTOR SNAPSHOT ===',
-      `Version: ${metadata.version}`,
-      `Created: ${metadata.created_at}`,
-      `Updated: ${metadata.updated_at}`,
-      '',
-      'Dependencies:',
-    ];
-
-    metadata.dependencies.forEach(dep => {
-      header.push(`- ${dep.name}: ${dep.version}`);
-    });
-
-    if (metadata.health_metrics) {
-      const m = metadata.health_metrics;
-      header.push(
-        '',
-        'Health Metrics:',
-        `- Word Count: ${m.word_count}`,
-        `- Reading Time: ${m.reading_time} minutes`,
-        `- TODOs: ${m.todo_count}`,
-        `- Completion: ${m.completion_percentage}%`,
-        `- Sections: ${m.section_count}`,
-        `- Code Blocks: ${m.code_blocks}`,
-        `- Days Since Last Snapshot: ${m.last_snapshot_delta}`,
-      );
+  /**
+   * Finds the first template directory that provides the named template.
+   */
+  async resolveTemplate(templateName: string): Promise<string> {
+    for (const dir of this.templateDirs) {
+      const templatePath = path.join(dir, `${templateName}.mustache`);
+      try {
+        await fs.access(templatePath);
+        return templatePath;
+      } catch {
+        // Not in this directory, try the next one
+      }
     }
 
-    if (metadata.tags.length > 0) {
-      header.push('', 'Tags:', ...metadata.tags.map(tag => `- ${tag}`));
+    throw new Error(`Template ${templateName} not found in ${this.templateDirs.join(', ')}`);
+  }
+
+  /**
+   * Lists the entries of a template directory. Project template directories are optional,
+   * so a missing directory yields no entries; only the bundled directory must exist.
+   */
+  private async readTemplateDir(dir: string): Promise<string[]> {
+    try {
+      return await fs.readdir(dir);
+    } catch (error) {
+      if (dir !== BUNDLED_TEMPLATES_DIR && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
     }
+  }
 
-    return header.join('\n');
+  /**
+   * Collects partials from every template directory. A partial is either a `_name.mustache`
+   * file next to the templates or any `.mustache` file below a `partials/` directory, and is
+   * referenced as `{{> name}}` (or `{{> group/name}}` for nested files). Partials from project
+   * directories replace bundled partials of the same name.
+   */
+  private async loadPartials(): Promise<Record<string, string>> {
+    const partials: Record<string, string> = {};
+
+    // Walk from the bundled directory up to the project ones so later entries win
+    for (const dir of [...this.templateDirs].reverse()) {
+      for (const file of await this.readTemplateDir(dir)) {
+        if (file.startsWith('_') && file.endsWith('.mustache')) {
+          partials[file.slice(1, -'.mustache'.length)] = await fs.readFile(
+            path.join(dir, file),
+            'utf-8',
+          );
+        }
+      }
+
+      const partialsDir = path.join(dir, 'partials');
+      for (const file of await this.listPartialFiles(partialsDir)) {
+        const name = file.slice(0, -'.mustache'.length);
+        partials[name] = await fs.readFile(path.join(partialsDir, file), 'utf-8');
+      }
+    }
+
+    return partials;
   }
 
-  async createSnapshot(templateName: string, data: TemplateData): Promise<string> {
-    const content = await this.renderTemplate(templateName, data);
+  /**
+   * Recursively lists `.mustache` files below a partials directory as `/`-separated paths.
+   */
+  private async listPartialFiles(dir: string, prefix = ''): Promise<string[]> {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return []; // No partials directory
+    }
 
-    if (data.metadata) {
-      const header = this.generateMetadataHeader(data.metadata);
-      return `${header}\n\n---\n\n${content}`;
+    const files: string[] = [];
+    for (const entry of entries) {
+      const name = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        files.push(...(await this.listPartialFiles(path.join(dir, entry.name), name)));
+      } else if (entry.name.endsWith('.mustache')) {
+        files.push(name);
+      }
     }
+    return files;
+  }
 
-    return content;
+  private getPartials(): Promise<Record<string, string>> {
+    this.partials ??= this.loadPartials();
+    return this.partials;
+  }
+
+  /**
+   * Finds the layout a template should be wrapped in. A template selects one with a
+   * `{{! layout: name }}` pragma, or opts out with `{{! layout: none }}`; otherwise
+   * `layouts/default.mustache` is used when any template directory provides it.
+   */
+  private async resolveLayout(template: string): Promise<string | null> {
+    const requested = template.match(LAYOUT_PRAGMA)?.[1];
+    if (requested === 'none') return null;
+
+    try {
+      return await this.resolveTemplate(path.posix.join('layouts', requested ?? 'default'));
+    } catch (error) {
+      if (requested) throw error;
+      return null;
+    }
   }
 
   async renderTemplate(templateName: string, data: TemplateData): Promise<string> {
     try {
-      const templatePath = path.join(this.templateDir, `${templateName}.mustache`);
+      const templatePath = await this.resolveTemplate(templateName);
       const template = await fs.readFile(templatePath, 'utf-8');
 
       // Add default values
@@ -142,8 +251,17 @@ export class TemplateRenderer {
 
       // Merge default data with provided data
       const mergedData = { ...defaultData, ...data };
+      const partials = await this.getPartials();
+      const content = Mustache.render(template.replace(LAYOUT_PRAGMA, ''), mergedData, partials);
 
-      return Mustache.render(template, mergedData);
+      const layoutPath = await this.resolveLayout(template);
+      if (!layoutPath) {
+        return content;
+      }
+
+      // Layouts receive the rendered document as {{{content}}}
+      const layout = await fs.readFile(layoutPath, 'utf-8');
+      return Mustache.render(layout, { ...mergedData, content, template: templateName }, partials);
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Failed to render template ${templateName}: ${error.message}`);
@@ -154,10 +272,16 @@ export class TemplateRenderer {
 
   async listTemplates(): Promise<string[]> {
     try {
-      const files = await fs.readdir(this.templateDir);
-      return files
-        .filter(file => file.endsWith('.mustache'))
-        .map(file => file.replace('.mustache', ''));
+      const templates = new Set<string>();
+
+      for (const dir of this.templateDirs) {
+        const files = await this.readTemplateDir(dir);
+        files
+          .filter(file => file.endsWith('.mustache') && !file.startsWith('_'))
+          .forEach(file => templates.add(file.replace('.mustache', '')));
+      }
+
+      return [...templates].sort();
     } catch (error) {
       if (error instanceof Error) {
         throw new Error(`Failed to list templates: ${error.message}`);
@@ -1,69 +1,198 @@
+import { AIPreferences } from '../core/ai/types';
+import { HealthMetrics } from '../services/templateRenderer';
+
 /**
- * Metadata for a documentation file.
- * @interface DocumentMeta
- * @property {string} title - The title of the document
- * @property {string} date - The creation or last modification date
- * @property {string[]} tags - List of tags categorizing the document
- * @property {'architecture' | 'development' | 'changelog' | 'readme'} type - The type of documentation
- * @property {string} [version] - Optional version number of the document
+ * What caused a snapshot to be taken.
+ * @typedef {'manual' | 'init' | 'watch' | 'ai-session' | 'migration' | 'restore' | 'interval'} SnapshotTrigger
  */
-export interface DocumentMeta {
-  title: string;
-  date: string;
-  tags: string[];
-  type: 'architecture' | 'development' | 'changelog' | 'readme';
-  version?: string;
-}
+export type SnapshotTrigger =
+  | 'manual'
+  | 'init'
+  | 'watch'
+  | 'ai-session'
+  | 'migration'
+  | 'restore'
+  | 'interval';
 
 /**
- * Represents a complete documentation file with its metadata and content.
- * @interface DocumentContent
- * @property {DocumentMeta} meta - The document's metadata
- * @property {string} content - The actual content of the document
+ * A documentation file captured in a snapshot.
+ * @interface SnapshotDocument
+ * @property {string} path - Path of the document relative to the docs directory, e.g. `tech_context.md`
+ * @property {string} content - Full content of the document
+ * @property {HealthMetrics} [metrics] - Health metrics of the document when it was captured
  */
-export interface DocumentContent {
-  meta: DocumentMeta;
+export interface SnapshotDocument {
+  path: string;
   content: string;
+  metrics?: HealthMetrics;
 }
 
 /**
- * Represents a point-in-time snapshot of the project's documentation context.
- * @interface ContextSnapshot
- * @property {string} timestamp - When the snapshot was created
- * @property {Array<{file: string, type: 'added' | 'modified' | 'deleted', description: string}>} changes - List of changes in this snapshot
- * @property {DocumentContent[]} documents - Collection of documents included in this snapshot
+ * A change recorded in a snapshot.
+ * @interface SnapshotChange
+ * @property {string} file - Path of the changed file
+ * @property {'added' | 'modified' | 'deleted'} type - Kind of change
+ * @property {string} description - Human readable description of the change
  */
-export interface ContextSnapshot {
-  timestamp: string;
-  changes: {
-    file: string;
-    type: 'added' | 'modified' | 'deleted';
-    description: string;
-  }[];
-  documents: DocumentContent[];
+export interface SnapshotChange {
+  file: string;
+  type: 'added' | 'modified' | 'deleted';
+  description: string;
+}
+
+/**
+ * State of the git repository when a snapshot was taken.
+ * @interface SnapshotGitInfo
+ * @property {string} commit - Full hash of the HEAD commit
+ * @property {string} [branch] - Current branch, missing on a detached HEAD
+ * @property {boolean} dirty - Whether the working tree had uncommitted changes
+ * @property {Array<{hash: string, message: string}>} commits - Commits made since the
+ *   previous snapshot, newest first
+ */
+export interface SnapshotGitInfo {
+  commit: string;
+  branch?: string;
+  dirty: boolean;
+  commits: Array<{ hash: string; message: string }>;
+}
+
+/**
+ * A point-in-time snapshot of the project's documentation. Every snapshot is stored in this
+ * format, see `SnapshotStore` for how it is written and read.
+ * @interface Snapshot
+ * @property {'mementor-snapshot'} format - Marks the file as a Mementor snapshot
+ * @property {number} version - Version of the snapshot format
+ * @property {string} id - Unique, chronologically sortable identifier, e.g. `2025-02-11T150825128Z`
+ * @property {string} createdAt - ISO timestamp of when the snapshot was taken
+ * @property {SnapshotTrigger} trigger - What caused the snapshot
+ * @property {string} [sessionId] - AI session the snapshot belongs to
+ * @property {string} [label] - Name the snapshot can be referred to by, e.g. `pre-release-2.0`
+ * @property {string} [note] - Free-form description of the snapshot
+ * @property {SnapshotGitInfo} [git] - Repository state, missing outside a git repository
+ * @property {SnapshotChange[]} changes - Changes since the previous snapshot
+ * @property {HealthMetrics} [metrics] - Health metrics across all captured documents
+ * @property {SnapshotDocument[]} documents - Captured documents
+ */
+export interface Snapshot {
+  format: 'mementor-snapshot';
+  version: number;
+  id: string;
+  createdAt: string;
+  trigger: SnapshotTrigger;
+  sessionId?: string;
+  label?: string;
+  note?: string;
+  git?: SnapshotGitInfo;
+  changes: SnapshotChange[];
+  metrics?: HealthMetrics;
+  documents: SnapshotDocument[];
+}
+
+/**
+ * Which snapshots are kept when snapshots are pruned. Snapshots with a label are always kept.
+ * @interface RetentionPolicy
+ * @property {number} keepAllDays - Keep every snapshot taken within this many days
+ * @property {number} keepDailyWeeks - Then keep the last snapshot of each day for this many
+ *   weeks, and the last snapshot of each week after that
+ * @property {boolean} autoPrune - Whether to prune after every automatic snapshot
+ */
+export interface RetentionPolicy {
+  keepAllDays: number;
+  keepDailyWeeks: number;
+  autoPrune: boolean;
+}
+
+/**
+ * Source paths a document describes, declared in the configuration instead of the
+ * document's `covers` front matter.
+ * @interface DocumentCoverage
+ * @property {string} document - Document name in the docs directory, e.g. `structure.md`
+ * @property {string[]} paths - Files, directories or git pathspecs relative to the project root
+ */
+export interface DocumentCoverage {
+  document: string;
+  paths: string[];
+}
+
+/**
+ * Thresholds documentation health is checked against, the rules of `mementor check`.
+ * @interface HealthSettings
+ * @property {number} maxGradeLevel - Flesch-Kincaid grade level above which a section is
+ *   flagged as difficult to read
+ * @property {number} minCompletion - Lowest acceptable share of completed tasks per document
+ *   in percent, 0 to disable
+ * @property {number} maxSnapshotAgeDays - Days the latest snapshot may be old, 0 to disable
+ * @property {boolean} allowBrokenLinks - Whether broken links pass the check
+ * @property {boolean} allowUnfilledSections - Whether sections holding template placeholders
+ *   pass the check
+ * @property {string[]} sourceDirs - Directories whose changes require an update of
+ *   `active_context.md`, empty to disable
+ * @property {DocumentCoverage[]} covers - Source paths documents describe, in addition to
+ *   their `covers` front matter
+ */
+export interface HealthSettings {
+  maxGradeLevel: number;
+  minCompletion: number;
+  maxSnapshotAgeDays: number;
+  allowBrokenLinks: boolean;
+  allowUnfilledSections: boolean;
+  sourceDirs: string[];
+  covers: DocumentCoverage[];
 }
 
 /**
  * Configuration options for a Mementor project.
  * @interface ProjectConfig
+ * @property {number} configVersion - Version of the configuration format
  * @property {string} name - The name of the project
  * @property {string} version - Project version
- * @property {string} docsDir - Directory where documentation is stored
+ * @property {string} docsDir - Directory where the context documents are stored
  * @property {string} templatesDir - Directory containing documentation templates
+ * @property {string} templatePack - Template pack documents are generated from
+ * @property {string} [snapshotsDir] - Directory for snapshots, defaults to `<docsDir>/snapshots`
+ * @property {string} [sessionsDir] - Directory for AI sessions, defaults to `<docsDir>/ai_sessions`
+ * @property {Object} retention - Which snapshots pruning keeps
+ * @property {number} retention.keepAllDays - Keep every snapshot taken within this many days
+ * @property {number} retention.keepDailyWeeks - Then keep one per day for this many weeks
+ * @property {boolean} retention.autoPrune - Whether to prune after every automatic snapshot
+ * @property {Object} health - Documentation health thresholds
+ * @property {number} health.maxGradeLevel - Grade level above which a section is flagged as
+ *   difficult to read
+ * @property {number} health.minCompletion - Lowest share of completed tasks per document
+ * @property {number} health.maxSnapshotAgeDays - Days the latest snapshot may be old
+ * @property {boolean} health.allowBrokenLinks - Whether broken links pass `mementor check`
+ * @property {boolean} health.allowUnfilledSections - Whether template placeholders pass it
+ * @property {string[]} health.sourceDirs - Directories whose changes require an update of
+ *   `active_context.md`
+ * @property {DocumentCoverage[]} health.covers - Source paths documents describe
  * @property {Object} git - Git integration settings
  * @property {boolean} git.enabled - Whether git integration is enabled
  * @property {boolean} git.autoCommit - Whether to automatically commit documentation changes
  * @property {string} git.commitPrefix - Prefix for git commit messages
  * @property {Object} features - Feature toggles
  * @property {boolean} features.autoSnapshot - Whether to automatically create snapshots
+ * @property {number} features.snapshotInterval - Interval between the watcher's snapshots in
+ *   milliseconds, 0 to only snapshot on file changes
  * @property {boolean} features.liveUpdate - Whether to update documentation in real-time
  * @property {boolean} features.gitHooks - Whether to use git hooks
+ * @property {Object} ai - AI session settings
+ * @property {boolean} ai.enabled - Whether AI session tracking is enabled
+ * @property {'minimal' | 'standard' | 'detailed'} ai.trackingLevel - How much detail sessions record
+ * @property {boolean} ai.autoSnapshot - Whether sessions snapshot on decisions and code changes
+ * @property {number} ai.snapshotInterval - Interval between session snapshots in milliseconds
+ * @property {AIPreferences} ai.preferences - Code style, rules and constraints given to new sessions
  */
 export interface ProjectConfig {
+  configVersion: number;
   name: string;
   version: string;
   docsDir: string;
   templatesDir: string;
+  templatePack: string;
+  snapshotsDir?: string;
+  sessionsDir?: string;
+  retention: RetentionPolicy;
+  health: HealthSettings;
   git: {
     enabled: boolean;
     autoCommit: boolean;
@@ -71,7 +200,15 @@ export interface ProjectConfig {
   };
   features: {
     autoSnapshot: boolean;
+    snapshotInterval: number;
     liveUpdate: boolean;
     gitHooks: boolean;
   };
+  ai: {
+    enabled: boolean;
+    trackingLevel: 'minimal' | 'standard' | 'detailed';
+    autoSnapshot: boolean;
+    snapshotInterval: number;
+    preferences: AIPreferences;
+  };
 }